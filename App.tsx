@@ -1,11 +1,31 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { UserSettings, HRZoneMethod, Units, RunData, ThemeType, PlanSession, RunnerLevel } from './types';
-import { parseTCX } from './services/tcxParser';
-import { getZoneDistribution, calculateTrainingEffect, calculateGAP, calculateDecoupling } from './services/physiology';
+import { UserSettings, HRZoneMethod, Units, RunData, TrackPoint, ThemeType, PlanSession, TrainingPlan, PlanAdjustment, RunnerLevel, ImportProgress, ImportResult, ComparisonAxis, Segment, MapColorMode, MapSettings } from './types';
+import { SUPPORTED_EXTENSIONS } from './services/activityParser';
+import { parseFilesInWorker, findDuplicate, withUniqueId, collectDroppedFiles } from './services/batchImport';
+import { calculateTrainingEffect, calculateIntensityFactor, calculateGAPSeries, calculateZones, DEFAULT_THRESHOLD_PACE } from './services/physiology';
 import { PLANS, calculateCompliance, getScaledPlan } from './services/plans';
+import { getLapSplits } from './services/laps';
+import { buildLoadSeries, calculateTRIMP, getLoadRiskFlags, ACWR_SAFE_MIN, ACWR_SAFE_MAX } from './services/trainingLoad';
+import { analyzeRun } from './services/runAnalysis';
+import { loadRunSummaries, loadRunPoints, loadAllRuns, saveRuns, clearRuns, toSummary, migrateFromLocalStorage, saveDemTile, loadDemTiles, listDemTiles, deleteDemTile, loadSegments, saveSegments, deleteSegment } from './services/storage';
+import { createSegment, matchSegment, mayCoverSegment, getLeaderboard, withRunEfforts, groupRoutes, ROUTE_SAMPLES } from './services/segments';
+import { resampleRoute } from './services/geo';
+import { DEFAULT_ELEVATION_SETTINGS, parseHGT, calculateElevationGain } from './services/elevation';
+import { DEFAULT_MAP_SETTINGS, DEFAULT_TILE_URL, classifyRoute, buildRouteStretches, findDistanceMarkers, findLapStarts } from './services/routeStyle';
+import { buildComparisonSeries, calculateTimeDelta, findGainLossSegments } from './services/comparison';
+import { createBackup, backupFileName, readBackup, mergeRuns, mergeSettings, mergePlans } from './services/backup';
+import { describeWorkout, createPlan, duplicatePlan } from './services/workouts';
+import { applyAdjustments, proposeAdjustments, recoveryMoves } from './services/adaptation';
+import { buildFitWorkout, buildTcxWorkouts, buildWorkoutBundle, workoutFileName, fileSlug } from './services/workoutExport';
+import { writeTCX, writeGPX, writeCSV, runFileName } from './services/runExport';
+import { createSchedule, scheduleSessions, groupByWeek, weekDays, matchRunToSession, getSessionDate, toDateKey, daysBetween } from './services/planCalendar';
+import { estimateThreshold } from './services/threshold';
+import { predictRaces, calculateBestVDOT, calculateTrainingPaces, MIN_VDOT_DISTANCE } from './services/racePredictor';
+import { BEST_EFFORT_DISTANCES, buildPRHistory, buildPaceCurve, getRunPRs } from './services/bestEfforts';
 import MetricTile from './components/MetricTile';
 import Chart from './components/Chart';
+import PlanEditor from './components/PlanEditor';
 import L from 'leaflet';
 
 const THEMES: Record<ThemeType, { accent: string; glow: string }> = {
@@ -23,9 +43,38 @@ const ZONE_COLORS: Record<number, string> = {
   5: '#ef4444'  // Anaerobic - Red
 };
 
+// Line colors for compared runs after the baseline (which uses the theme accent)
+const COMPARE_COLORS = ['#38bdf8', '#f472b6', '#facc15', '#a78bfa'];
+const MAX_COMPARE_RUNS = 5;
+
+// Route colors per map mode, bucket 0 first: slowest pace, zone 1, steepest descent
+const ROUTE_PALETTES: Record<Exclude<MapColorMode, 'route'>, string[]> = {
+  pace: ['#3b82f6', '#22c55e', '#eab308', '#f97316', '#ef4444'],
+  hr: [1, 2, 3, 4, 5].map(z => ZONE_COLORS[z]),
+  grade: ['#3b82f6', '#38bdf8', '#94a3b8', '#f97316', '#ef4444']
+};
+const NO_DATA_COLOR = '#52525b';
+
+// Dark tiles, or a blank background when offline
+const addBaseLayer = (map: L.Map, config: MapSettings) => {
+  if (config.offline) {
+    map.getContainer().style.background = '#0a0a0a';
+    return;
+  }
+  L.tileLayer(config.tileUrl.trim() || DEFAULT_TILE_URL).addTo(map);
+};
+
+const pinIcon = (text: string | number, color: string) => L.divIcon({
+  className: '',
+  iconSize: [18, 18],
+  html: `<div style="background:${color}" class="w-[18px] h-[18px] rounded-full border border-black/40 flex items-center justify-center text-[8px] font-black text-black">${text}</div>`
+});
+
 const DEFAULT_SETTINGS: UserSettings = {
   name: 'Athlete', age: 30, weight: 75, maxHR: 190, restingHR: 55,
   method: HRZoneMethod.KARVONEN, units: Units.KM, theme: 'strava', level: RunnerLevel.BEGINNER,
+  elevation: DEFAULT_ELEVATION_SETTINGS,
+  map: DEFAULT_MAP_SETTINGS,
   completedSessions: {}
 };
 
@@ -37,77 +86,471 @@ const App: React.FC = () => {
     return { ...DEFAULT_SETTINGS, ...parsed };
   });
   
-  const [runs, setRuns] = useState<RunData[]>(() => {
-    const saved = localStorage.getItem('liquid_pro_runs');
-    if (!saved) return [];
-    return JSON.parse(saved).map((r: any) => ({ 
-      ...r, 
-      startTime: new Date(r.startTime), 
-      points: r.points.map((p: any) => ({ ...p, time: new Date(p.time) })) 
-    }));
-  });
+  const [customPlans, setCustomPlans] = useState<TrainingPlan[]>(() => JSON.parse(localStorage.getItem('liquid_pro_plans') || '[]'));
+  // Plan open in the editor, saved to customPlans only on Save
+  const [planDraft, setPlanDraft] = useState<TrainingPlan | null>(null);
+
+  // Run summaries only; point streams are loaded from IndexedDB when a run is opened
+  const [runs, setRuns] = useState<RunData[]>([]);
+  const [activePoints, setActivePoints] = useState<{ runId: string; points: TrackPoint[] } | null>(null);
 
   const [activeRunId, setActiveRunId] = useState<string | null>(null);
-  const [view, setView] = useState<'dashboard' | 'run' | 'plan' | 'settings'>('dashboard');
+  const [view, setView] = useState<'dashboard' | 'run' | 'plan' | 'records' | 'race' | 'compare' | 'settings'>('dashboard');
   const [loading, setLoading] = useState(false);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [importReport, setImportReport] = useState<ImportResult[] | null>(null);
+  const [demTileNames, setDemTileNames] = useState<string[]>([]);
+  // Comparison: first selected run is the baseline
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparePoints, setComparePoints] = useState<Record<string, TrackPoint[]>>({});
+  const [compareAxis, setCompareAxis] = useState<ComparisonAxis>('distance');
+  // Run view charts: shared axis, hover position and brushed range
+  const [runAxis, setRunAxis] = useState<ComparisonAxis>('time');
+  const [runHover, setRunHover] = useState<number | null>(null);
+  const [runSelection, setRunSelection] = useState<[number, number] | null>(null);
+  const [segments, setSegments] = useState<Segment[]>([]);
+  // Segment being marked on the run map: click start, then end
+  const [segmentDraft, setSegmentDraft] = useState<{ startIdx?: number; endIdx?: number; name: string } | null>(null);
   const mapRef = useRef<L.Map | null>(null);
+  const segmentLayerRef = useRef<L.LayerGroup | null>(null);
+  const selectionLayerRef = useRef<L.LayerGroup | null>(null);
+  const hoverMarkerRef = useRef<L.CircleMarker | null>(null);
+  const segmentDraftRef = useRef(segmentDraft);
+  segmentDraftRef.current = segmentDraft;
+
+  useEffect(() => {
+    migrateFromLocalStorage(run => analyzeRun(run, settings))
+      .then(() => loadRunSummaries())
+      .then(setRuns)
+      .catch(err => console.error('Failed to load runs', err));
+    listDemTiles().then(setDemTileNames).catch(() => {});
+    loadSegments().then(setSegments).catch(err => console.error('Failed to load segments', err));
+  }, []);
+
+  // Runs stored before courses were cached (or restored from old backups) get one filled in
+  const routesBackfilling = useRef(false);
+  useEffect(() => {
+    const pending = runs.filter(r => r.route === undefined);
+    if (routesBackfilling.current || pending.length === 0) return;
+    routesBackfilling.current = true;
+    (async () => {
+      const updated: Record<string, RunData> = {};
+      for (const run of pending) {
+        updated[run.id] = { ...run, route: resampleRoute(await loadRunPoints(run.id), ROUTE_SAMPLES) };
+      }
+      await saveRuns(Object.values(updated));
+      setRuns(prev => prev.map(r => updated[r.id] || r));
+    })()
+      .catch(err => console.error('Failed to cache routes', err))
+      .finally(() => { routesBackfilling.current = false; });
+  }, [runs]);
 
   useEffect(() => {
     localStorage.setItem('liquid_pro_settings', JSON.stringify(settings));
-    localStorage.setItem('liquid_pro_runs', JSON.stringify(runs));
     document.documentElement.style.setProperty('--accent', THEMES[settings.theme].accent);
     document.documentElement.style.setProperty('--accent-glow', THEMES[settings.theme].glow);
-  }, [settings, runs]);
+  }, [settings]);
+
+  useEffect(() => {
+    localStorage.setItem('liquid_pro_plans', JSON.stringify(customPlans));
+  }, [customPlans]);
+
+  useEffect(() => {
+    if (!activeRunId || activePoints?.runId === activeRunId) return;
+    let cancelled = false;
+    loadRunPoints(activeRunId)
+      .then(points => {
+        if (!cancelled) setActivePoints({ runId: activeRunId, points });
+      })
+      .catch(err => {
+        console.error('Failed to load track', err);
+        // Show the run without its track rather than waiting forever
+        if (!cancelled) setActivePoints({ runId: activeRunId, points: [] });
+      });
+    return () => { cancelled = true; };
+  }, [activeRunId]);
+
+  useEffect(() => {
+    const missing = compareIds.filter(id => !comparePoints[id]);
+    if (missing.length === 0) return;
+    Promise.all(missing.map(async id => [id, await loadRunPoints(id)] as const))
+      .then(loaded => {
+        setComparePoints(prev => ({ ...prev, ...Object.fromEntries(loaded) }));
+      })
+      .catch(err => console.error('Failed to load tracks for comparison', err));
+  }, [compareIds]);
+
+  // Threshold or HR setting changes invalidate IF, TE and TRIMP on every stored run
+  const metricsKey = `${settings.thresholdPace}|${settings.lthr}|${settings.method}|${settings.maxHR}|${settings.restingHR}`;
+  const metricsKeyRef = useRef(metricsKey);
+  useEffect(() => {
+    if (metricsKeyRef.current === metricsKey) return;
+    metricsKeyRef.current = metricsKey;
+    const updated = runs.map(r => ({
+      ...r,
+      summary: {
+        ...r.summary,
+        intensityFactor: calculateIntensityFactor(r.summary.avgPace, settings.thresholdPace),
+        trainingEffect: calculateTrainingEffect(r, settings),
+        trimp: calculateTRIMP(r, settings)
+      }
+    }));
+    setRuns(updated);
+    saveRuns(updated).catch(err => console.error('Failed to save recalculated metrics', err));
+  }, [metricsKey]);
 
-  const activeRun = useMemo(() => runs.find(r => r.id === activeRunId), [runs, activeRunId]);
+  const detectThreshold = (pool: RunData[]) => {
+    const estimate = estimateThreshold(pool);
+    if (!estimate) return;
+    setSettings(prev => prev.thresholdManual ? prev : {
+      ...prev,
+      thresholdPace: Math.round(estimate.pace),
+      lthr: estimate.hr || prev.lthr
+    });
+  };
+
+  const activeRun = useMemo(() => {
+    const run = runs.find(r => r.id === activeRunId);
+    if (!run) return undefined;
+    return activePoints?.runId === run.id ? { ...run, points: activePoints.points } : run;
+  }, [runs, activeRunId, activePoints]);
+
+  const loadSeries = useMemo(() => buildLoadSeries(runs, settings), [runs, settings.maxHR, settings.restingHR]);
+
+  const loadChart = useMemo(() => {
+    // Last 90 days, x = day offset from the first day shown
+    const recent = loadSeries.slice(-90);
+    if (recent.length === 0) return null;
+    const origin = recent[0].date.getTime();
+    const toX = (d: Date) => Math.round((d.getTime() - origin) / 86400000);
+    return {
+      xDomain: [0, Math.max(1, toX(recent[recent.length - 1].date))] as [number, number],
+      xFormat: (x: number) => new Date(origin + x * 86400000).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      ctlData: recent.map(d => ({ x: toX(d.date), y: d.ctl })),
+      atlData: recent.map(d => ({ x: toX(d.date), y: d.atl })),
+      tsbData: recent.map(d => ({ x: toX(d.date), y: d.tsb })),
+      acwrData: recent.map(d => ({ x: toX(d.date), y: d.acwr })),
+      current: recent[recent.length - 1],
+      flags: getLoadRiskFlags(loadSeries).filter(f => f.date.getTime() >= origin).slice(-3).reverse()
+    };
+  }, [loadSeries]);
   
+  const prHistory = useMemo(() => buildPRHistory(runs), [runs]);
+  const currentPRs = useMemo(() => Object.values(prHistory).map(h => h[h.length - 1]).filter(Boolean), [prHistory]);
+
+  const trainingPaces = useMemo(() => {
+    const vdot = calculateBestVDOT(currentPRs, settings.thresholdPace);
+    return vdot ? calculateTrainingPaces(vdot) : null;
+  }, [currentPRs, settings.thresholdPace]);
+
+  const racePredictions = useMemo(() => predictRaces(currentPRs, settings.thresholdPace), [currentPRs, settings.thresholdPace]);
+
+  const allPlans = useMemo<Record<string, TrainingPlan>>(() => ({
+    ...PLANS,
+    ...Object.fromEntries(customPlans.map(p => [p.id, p]))
+  }), [customPlans]);
+
   const activePlan = useMemo(() => {
-    if (!settings.activePlanId) return null;
-    return getScaledPlan(settings.activePlanId, settings.level);
-  }, [settings.activePlanId, settings.level]);
-
-  // Group plan sessions by week (assuming 7 days per week)
-  const groupedPlan = useMemo(() => {
-    if (!activePlan) return [];
-    const weeks: Record<number, PlanSession[]> = {};
-    activePlan.sessions.forEach(s => {
-      const weekNum = Math.ceil(s.day / 7);
-      if (!weeks[weekNum]) weeks[weekNum] = [];
-      weeks[weekNum].push(s);
+    const basePlan = settings.activePlanId ? allPlans[settings.activePlanId] : undefined;
+    if (!basePlan) return null;
+    return applyAdjustments(getScaledPlan(basePlan, settings.level, trainingPaces), settings.planAdjustments);
+  }, [settings.activePlanId, settings.level, trainingPaces, allPlans, settings.planAdjustments]);
+
+  const savePlanDraft = () => {
+    if (!planDraft) return;
+    const plan = { ...planDraft, name: planDraft.name.trim() || 'My Plan', sessions: [...planDraft.sessions].sort((a, b) => a.day - b.day) };
+    setCustomPlans(prev => (prev.some(p => p.id === plan.id) ? prev.map(p => (p.id === plan.id ? plan : p)) : [...prev, plan]));
+    setPlanDraft(null);
+  };
+
+  const deletePlan = (planId: string) => {
+    if (!confirm('Delete this plan?')) return;
+    setCustomPlans(prev => prev.filter(p => p.id !== planId));
+    if (settings.activePlanId === planId) setSettings(s => ({ ...s, activePlanId: undefined }));
+    setPlanDraft(null);
+  };
+
+  // Plans picked before scheduling existed start today
+  useEffect(() => {
+    if (settings.activePlanId && !settings.planSchedule) setSettings(s => ({ ...s, planSchedule: createSchedule() }));
+  }, [settings.activePlanId, settings.planSchedule]);
+
+  // Plan sessions on their calendar dates
+  const scheduledPlan = useMemo(() => {
+    if (!activePlan || !settings.planSchedule) return [];
+    return scheduleSessions(activePlan, settings.planSchedule, settings.completedSessions);
+  }, [activePlan, settings.planSchedule, settings.completedSessions]);
+
+  const plannedWeeks = useMemo(() => groupByWeek(scheduledPlan), [scheduledPlan]);
+
+  const selectPlan = (planId: string) => setSettings(s => ({ ...s, activePlanId: planId, planSchedule: createSchedule() }));
+
+  const adjustmentProposals = useMemo(() => {
+    if (!activePlan || scheduledPlan.length === 0) return [];
+    return proposeAdjustments(activePlan, scheduledPlan, runs, settings.completedSessions, settings.planAdjustments);
+  }, [activePlan, scheduledPlan, runs, settings.completedSessions, settings.planAdjustments]);
+
+  // Workouts for the watch: one session as FIT or TCX, or a week/plan as a ZIP bundle
+  const exportSession = (session: PlanSession, date: Date, format: 'fit' | 'tcx') => {
+    const blob = format === 'fit'
+      ? new Blob([buildFitWorkout(session, settings)], { type: 'application/octet-stream' })
+      : new Blob([buildTcxWorkouts([{ session, date }], settings)], { type: 'application/xml' });
+    downloadBlob(blob, workoutFileName(session, format));
+  };
+
+  const exportSessions = (name: string, sessions: { session: PlanSession; date: Date }[]) =>
+    downloadBlob(buildWorkoutBundle(name, sessions, settings), `${name}.zip`);
+
+  // The run's recorded streams as TCX/GPX for other apps, or CSV for spreadsheets
+  const exportRun = (run: RunData, format: 'tcx' | 'gpx' | 'csv') => {
+    const content = format === 'tcx' ? writeTCX(run) : format === 'gpx' ? writeGPX(run) : writeCSV(run, settings);
+    downloadBlob(new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/xml' }), runFileName(run, format));
+  };
+
+  const decideAdjustment = (adjustment: PlanAdjustment, status: 'accepted' | 'rejected') => {
+    // An accepted recovery run is placed through the schedule, next to where the session actually is
+    const moves = status === 'accepted' && adjustment.kind === 'recovery' ? recoveryMoves(adjustment, scheduledPlan) : {};
+    setSettings(s => ({
+      ...s,
+      planSchedule: s.planSchedule && { ...s.planSchedule, moves: { ...s.planSchedule.moves, ...moves } },
+      planAdjustments: [...(s.planAdjustments || []), { ...adjustment, status, decidedAt: new Date().toISOString() }]
+    }));
+  };
+
+  const describeAdjustment = (a: PlanAdjustment) => {
+    const title = activePlan?.sessions.find(s => s.id === a.sessionId)?.title || a.sessionId;
+    switch (a.kind) {
+      case 'shorten':
+      case 'progress': return `${a.kind === 'shorten' ? 'Shorten' : 'Progress'} ${title}: ${a.from.targetDuration} → ${a.to.targetDuration} min`;
+      case 'downgrade': return `${title}: Z${a.from.targetZone} → Z${a.to.targetZone}`;
+      case 'recovery': return `${a.to.targetDuration} min Z1 recovery before ${title}`;
+    }
+  };
+
+  const rescheduleSession = (sessionId: string, date: Date) => {
+    const session = activePlan?.sessions.find(s => s.id === sessionId);
+    if (!activePlan || !session || !settings.planSchedule) return;
+    const { [sessionId]: _, ...moves } = settings.planSchedule.moves;
+    // Dropping a session back on its planned day clears the move
+    const planned = getSessionDate(session, activePlan, { ...settings.planSchedule, moves });
+    const key = toDateKey(date);
+    setSettings(s => ({ ...s, planSchedule: { ...s.planSchedule!, moves: key === toDateKey(planned) ? moves : { ...moves, [sessionId]: key } } }));
+  };
+
+  /**
+   * Links runs (with points) to their nearest open plan session and scores them.
+   * Returns the runs that were matched, with compliance filled in.
+   */
+  const linkRunsToPlan = (candidates: RunData[]): RunData[] => {
+    if (!activePlan || scheduledPlan.length === 0) return [];
+    const taken = new Set<string>();
+    const linked: RunData[] = [];
+    candidates.forEach(run => {
+      const session = matchRunToSession(run, scheduledPlan, taken);
+      if (!session) return;
+      taken.add(session.id);
+      const { score, notes, breakdown } = calculateCompliance(session, run, settings);
+      run.compliance = { score, notes, sessionId: session.id, breakdown };
+      linked.push(run);
     });
-    return Object.entries(weeks).sort(([a], [b]) => Number(a) - Number(b));
-  }, [activePlan]);
+    if (linked.length > 0) {
+      setSettings(prev => ({
+        ...prev,
+        completedSessions: { ...prev.completedSessions, ...Object.fromEntries(linked.map(r => [r.compliance!.sessionId!, r.id])) }
+      }));
+    }
+    return linked;
+  };
+
+  // Runs already stored that fall on open plan days
+  const matchExistingRuns = async () => {
+    if (scheduledPlan.length === 0) return;
+    setLoading(true);
+    try {
+      const linkedRuns = new Set(Object.values(settings.completedSessions));
+      const first = scheduledPlan[0].date;
+      const candidates = runs.filter(r => !linkedRuns.has(r.id) && daysBetween(first, r.startTime) >= -2);
+      const withPoints = await Promise.all(candidates.map(async r => ({ ...r, points: await loadRunPoints(r.id) })));
+      const linked = linkRunsToPlan(withPoints.sort((a, b) => a.startTime.getTime() - b.startTime.getTime()));
+      await saveRuns(linked);
+      const byId = new Map(linked.map(r => [r.id, toSummary(r)]));
+      setRuns(prev => prev.map(r => byId.get(r.id) || r));
+      alert(`Matched ${linked.length} run${linked.length === 1 ? '' : 's'} to the plan.`);
+    } catch (err) {
+      alert("Error matching runs.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // New runs (with points) join the leaderboard of every segment they cover
+  const matchNewRuns = async (added: RunData[]) => {
+    const matched = segments.map(seg => added.reduce((acc, run) => withRunEfforts(acc, run.id, matchSegment(acc, run)), seg));
+    const changedSegments = matched.filter((seg, i) => seg.efforts.length !== segments[i].efforts.length);
+    if (changedSegments.length > 0) {
+      await saveSegments(changedSegments);
+      setSegments(matched);
+    }
+  };
+
+  const importFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setLoading(true);
+    setImportProgress({ done: 0, total: files.length });
+    try {
+      const parsed = await parseFilesInWorker(files, settings, setImportProgress);
+      const report: ImportResult[] = [];
+      const accepted: RunData[] = [];
+
+      parsed.forEach(result => {
+        if (!('run' in result)) {
+          report.push({ fileName: result.fileName, status: 'failed', reason: result.reason });
+          return;
+        }
+        const duplicate = findDuplicate(result.run, [...runs, ...accepted]);
+        if (duplicate) {
+          report.push({ fileName: result.fileName, status: 'duplicate', reason: `Matches "${duplicate.name}"`, runId: duplicate.id });
+          return;
+        }
+        const data = withUniqueId(result.run, [...runs, ...accepted]);
+        accepted.push(data);
+        report.push({ fileName: result.fileName, status: 'imported', runId: data.id });
+      });
+
+      // Imported runs complete the plan session they were scheduled for
+      linkRunsToPlan([...accepted].sort((a, b) => a.startTime.getTime() - b.startTime.getTime()));
+
+      await saveRuns(accepted);
+      await matchNewRuns(accepted);
+      setRuns(prev => [...accepted.map(toSummary), ...prev].sort((a, b) => b.startTime.getTime() - a.startTime.getTime()));
+      if (accepted.length > 0 && !settings.thresholdManual) detectThreshold([...accepted, ...runs]);
+
+      if (accepted.length === 1 && report.length === 1) {
+        setActivePoints({ runId: accepted[0].id, points: accepted[0].points });
+        setActiveRunId(accepted[0].id);
+        setView('run');
+      } else {
+        setImportReport(report);
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Error processing files.");
+    } finally {
+      setLoading(false);
+      setImportProgress(null);
+    }
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    importFiles(files);
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    importFiles(await collectDroppedFiles(e.dataTransfer));
+  };
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportBackup = async () => {
+    setLoading(true);
+    try {
+      downloadBlob(await createBackup({ settings, runs: await loadAllRuns(), customPlans }), backupFileName());
+    } catch (err) {
+      alert("Error creating backup.");
+    } finally {
+      setLoading(false);
+    }
+  };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, sessionId?: string) => {
+  const handleImportBackup = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     setLoading(true);
     try {
-      const data = await parseTCX(file);
-      data.summary.trainingEffect = calculateTrainingEffect(data, settings);
-      data.summary.decoupling = calculateDecoupling(data) || 0;
-      
-      if (data.points.length > 10) {
-        data.summary.gap = calculateGAP(data.points[0], data.points[data.points.length - 1]);
-      }
+      const backup = await readBackup(file);
+      // Older backups may lack the cached metrics
+      const incoming = mergeRuns(runs, backup.runs).map(r => r.hrHistogram ? r : analyzeRun(r, settings));
+      await saveRuns(incoming);
+      await matchNewRuns(incoming);
+      setRuns(prev => [...prev, ...incoming.map(toSummary)].sort((a, b) => b.startTime.getTime() - a.startTime.getTime()));
+      setSettings(prev => mergeSettings(prev, backup.settings));
+      setCustomPlans(prev => mergePlans(prev, backup.customPlans));
+      alert(`Imported ${incoming.length} new run${incoming.length === 1 ? '' : 's'}.`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Error reading backup.");
+    } finally {
+      setLoading(false);
+      e.target.value = '';
+    }
+  };
+
+  const elevation = settings.elevation || DEFAULT_ELEVATION_SETTINGS;
+  const setElevation = (patch: Partial<typeof elevation>) => setSettings(s => ({ ...s, elevation: { ...(s.elevation || DEFAULT_ELEVATION_SETTINGS), ...patch } }));
+
+  const mapSettings = settings.map || DEFAULT_MAP_SETTINGS;
+  const setMapSettings = (patch: Partial<MapSettings>) => setSettings(s => ({ ...s, map: { ...(s.map || DEFAULT_MAP_SETTINGS), ...patch } }));
+
+  const handleDemUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+    setLoading(true);
+    try {
+      for (const file of files) await saveDemTile(parseHGT(file.name, await file.arrayBuffer()));
+      setDemTileNames(await listDemTiles());
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Error reading elevation tile.");
+    } finally {
+      setLoading(false);
+      e.target.value = '';
+    }
+  };
 
-      if (sessionId && activePlan) {
-        const session = activePlan.sessions.find(s => s.id === sessionId);
-        if (session) {
-          const { score, notes } = calculateCompliance(session, data);
-          data.compliance = { score, notes, sessionId };
-          setSettings(prev => ({
-            ...prev,
-            completedSessions: { ...prev.completedSessions, [sessionId]: data.id }
-          }));
+  const handleDemDelete = async (name: string) => {
+    setLoading(true);
+    try {
+      await deleteDemTile(name);
+      setDemTileNames(await listDemTiles());
+    } catch (err) {
+      alert("Error deleting elevation tile.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Elevation settings only apply to new imports until stored runs are reprocessed
+  const reprocessElevation = async () => {
+    setLoading(true);
+    try {
+      const tiles = elevation.useDEM ? await loadDemTiles() : [];
+      const updated: RunData[] = [];
+      for (const summary of runs) {
+        const points = await loadRunPoints(summary.id);
+        if (points.length === 0) {
+          updated.push(summary);
+          continue;
         }
+        const run = analyzeRun({ ...summary, summary: { ...summary.summary }, points }, settings, tiles);
+        await saveRuns([run]);
+        updated.push(toSummary(run));
+      }
+      setRuns(updated);
+      setActivePoints(null);
+      if (activeRunId) {
+        loadRunPoints(activeRunId)
+          .then(points => setActivePoints({ runId: activeRunId, points }))
+          .catch(err => console.error('Failed to load track', err));
       }
-
-      setRuns(prev => [data, ...prev].slice(0, 50));
-      setActiveRunId(data.id);
-      setView('run');
     } catch (err) {
-      alert("Error processing file.");
+      alert("Error reprocessing elevation.");
     } finally {
       setLoading(false);
     }
@@ -120,45 +563,371 @@ const App: React.FC = () => {
     return `${Math.floor(pace / 60)}:${Math.floor(pace % 60).toString().padStart(2, '0')}`;
   };
 
+  const parsePace = (value: string): number | undefined => {
+    const [min, sec] = value.split(':').map(Number);
+    if (isNaN(min) || isNaN(sec ?? 0)) return undefined;
+    const factor = settings.units === Units.MILES ? 1.60934 : 1;
+    return Math.round((min * 60 + (sec || 0)) * factor);
+  };
+
+  const formatDuration = (seconds: number) => {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const sec = Math.round(seconds % 60).toString().padStart(2, '0');
+    return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${sec}` : `${m}:${sec}`;
+  };
+
+  const toggleCompare = (runId: string) => {
+    setCompareIds(prev => prev.includes(runId) ? prev.filter(id => id !== runId) : [...prev, runId].slice(-MAX_COMPARE_RUNS));
+  };
+
+  const compareData = useMemo(() => {
+    const selected = compareIds
+      .map(id => runs.find(r => r.id === id))
+      .filter((r): r is RunData => !!r && !!comparePoints[r.id]);
+    if (selected.length < 2) return null;
+
+    const colors = [THEMES[settings.theme].accent, ...COMPARE_COLORS];
+    const streams = selected.map(r => comparePoints[r.id]);
+    const overlay = (value: 'pace' | 'hr' | 'altitude') =>
+      selected.map((r, i) => ({ data: buildComparisonSeries(streams[i], compareAxis, value), color: colors[i], label: r.name }));
+
+    const xMax = Math.max(...selected.map(r => compareAxis === 'distance' ? r.summary.totalDistance : r.summary.elapsedTime));
+    const unitLength = settings.units === Units.MILES ? 1609.34 : 1000;
+    const distanceFormat = (x: number) => `${(x / unitLength).toFixed(1)}`;
+    const deltas = selected.slice(1).map(r => calculateTimeDelta(streams[0], comparePoints[r.id]));
+    // Gains and losses of the first compared run against the baseline
+    const segments = findGainLossSegments(deltas[0]);
+
+    return {
+      runs: selected,
+      colors,
+      xDomain: [0, xMax] as [number, number],
+      xFormat: compareAxis === 'distance' ? distanceFormat : undefined,
+      distanceFormat,
+      paceFormat: (y: number) => formatPace(y),
+      pace: overlay('pace'),
+      hr: overlay('hr'),
+      altitude: overlay('altitude'),
+      delta: deltas.map((d, i) => ({ data: d.map(p => ({ x: p.distance, y: p.delta })), color: colors[i + 1], label: selected[i + 1].name })),
+      deltaDomain: [0, Math.max(1, ...deltas.map(d => d[d.length - 1]?.distance || 0))] as [number, number],
+      segments,
+      highlights: segments.filter(seg => Math.abs(seg.change) >= 1).map(seg => ({ from: seg.from, to: seg.to, color: seg.change < 0 ? '#22c55e' : '#ef4444' }))
+    };
+  }, [compareIds, comparePoints, runs, compareAxis, settings.theme, settings.units]);
+
+  const activeRunSegments = useMemo(() => {
+    if (!activeRun) return [];
+    return segments.flatMap(segment => {
+      const board = getLeaderboard(segment);
+      return board
+        .filter(e => e.runId === activeRun.id)
+        .map(effort => ({ segment, effort, rank: board.indexOf(effort) + 1, total: board.length }));
+    });
+  }, [segments, activeRun]);
+
+  const routeGroups = useMemo(() => groupRoutes(runs), [runs]);
+  const activeRouteGroup = activeRun ? routeGroups.find(g => g.runIds.includes(activeRun.id)) : undefined;
+
+  const activeRunPRs = useMemo(() => activeRun ? getRunPRs(prHistory, activeRun.id) : [], [prHistory, activeRun]);
+
+  const paceCurveChart = useMemo(() => {
+    const curve = buildPaceCurve(runs);
+    if (curve.length < 2) return null;
+    // Log-scaled duration axis so sprints and long runs share the chart
+    return {
+      data: curve.map(p => ({ x: Math.log10(p.seconds), y: p.pace })),
+      xDomain: [Math.log10(curve[0].seconds), Math.log10(curve[curve.length - 1].seconds)] as [number, number],
+      xFormat: (x: number) => {
+        const secs = Math.pow(10, x);
+        return secs < 60 ? `${Math.round(secs)}s` : secs < 3600 ? `${Math.round(secs / 60)}m` : `${(secs / 3600).toFixed(1)}h`;
+      },
+      yFormat: (y: number) => formatPace(y)
+    };
+  }, [runs, settings.units]);
+
+  const lapSplits = useMemo(() => activeRun ? getLapSplits(activeRun, settings.units) : [], [activeRun, settings.units]);
+
   const chartData = useMemo(() => {
     if (!activeRun) return null;
     const start = activeRun.startTime.getTime();
+    const unitLength = settings.units === Units.MILES ? 1609.34 : 1000;
+    // Shared x position of every point on the chosen axis; distance is carried
+    // forward over points without one so xs stays sorted for pointIndexAt
+    let lastDistance = 0;
+    const xs = activeRun.points.map(p => {
+      if (runAxis !== 'distance') return (p.time.getTime() - start) / 1000;
+      lastDistance = Math.max(lastDistance, p.distance ?? lastDistance);
+      return lastDistance;
+    });
+    const gapSeries = calculateGAPSeries(activeRun.points);
+    const paceData = activeRun.points.map((p, i) => {
+      let pace = 0;
+      if (i > 5) {
+        const prev = activeRun.points[i - 5];
+        const distDiff = (p.distance || 0) - (prev.distance || 0);
+        const timeDiff = (p.time.getTime() - prev.time.getTime()) / 1000;
+        if (distDiff > 0) pace = timeDiff / (distDiff / 1000);
+      }
+      return { x: xs[i], y: Math.min(pace, 900) };
+    }).filter(d => d.y > 0);
+    const stream = (value: (p: TrackPoint) => number | undefined) =>
+      activeRun.points.map((p, i) => ({ x: xs[i], y: value(p) })).filter((d): d is { x: number; y: number } => d.y !== undefined && d.y > 0);
+
     return {
-      xDomain: [0, activeRun.summary.elapsedTime] as [number, number],
-      paceData: activeRun.points.map((p, i) => {
-        let pace = 0;
-        if (i > 5) {
-          const prev = activeRun.points[i - 5];
-          const distDiff = (p.distance || 0) - (prev.distance || 0);
-          const timeDiff = (p.time.getTime() - prev.time.getTime()) / 1000;
-          if (distDiff > 0) pace = timeDiff / (distDiff / 1000);
+      xs,
+      xDomain: [0, Math.max(1, xs[xs.length - 1] || activeRun.summary.elapsedTime)] as [number, number],
+      xFormat: runAxis === 'distance' ? (x: number) => (x / unitLength).toFixed(1) : undefined,
+      paceFormat: (y: number) => formatPace(y),
+      paceSeries: [
+        { data: paceData, color: THEMES[settings.theme].accent, label: 'Pace' },
+        {
+          data: activeRun.points.map((p, i) => ({ x: xs[i], y: Math.min(gapSeries[i], 900) })).filter(d => d.y > 0),
+          color: '#a78bfa',
+          label: 'GAP',
+          dashed: true
         }
-        return { x: (p.time.getTime() - start) / 1000, y: Math.min(pace, 900) };
-      }).filter(d => d.y > 0),
-      hrData: activeRun.points.filter(p => p.hr).map(p => ({ x: (p.time.getTime() - start) / 1000, y: p.hr! })),
-      altData: activeRun.points.filter(p => p.altitude !== undefined).map(p => ({ x: (p.time.getTime() - start) / 1000, y: p.altitude! }))
+      ],
+      hrData: stream(p => p.hr),
+      altData: activeRun.points.map((p, i) => ({ x: xs[i], y: p.altitude })).filter((d): d is { x: number; y: number } => d.y !== undefined),
+      // Running dynamics, one chart per stream the file recorded
+      dynamicsData: ([
+        { label: 'Cadence (spm)', color: '#f472b6', value: (p: TrackPoint) => p.cadence },
+        { label: 'Power (W)', color: '#facc15', value: (p: TrackPoint) => p.power },
+        { label: 'Stride Length (m)', color: '#2dd4bf', value: (p: TrackPoint) => p.strideLength },
+        { label: 'Vertical Oscillation (mm)', color: '#818cf8', value: (p: TrackPoint) => p.verticalOscillation },
+        { label: 'Ground Contact (ms)', color: '#fb923c', value: (p: TrackPoint) => p.groundContactTime }
+      ]).map(series => ({ label: series.label, color: series.color, data: stream(series.value) })).filter(series => series.data.length > 1)
     };
-  }, [activeRun]);
+  }, [activeRun, settings.theme, settings.units, runAxis]);
+
+  /**
+   * Index of the point closest to an x position on the run charts.
+   */
+  const pointIndexAt = (x: number): number => {
+    const xs = chartData?.xs || [];
+    let lo = 0;
+    let hi = xs.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (xs[mid] < x) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo > 0 && x - xs[lo - 1] < xs[lo] - x ? lo - 1 : lo;
+  };
+
+  const selectionStats = useMemo(() => {
+    if (!activeRun || !chartData || !runSelection || activeRun.points.length === 0) return null;
+    const pts = activeRun.points.filter((_, i) => chartData.xs[i] >= runSelection[0] && chartData.xs[i] <= runSelection[1]);
+    if (pts.length < 2) return null;
+    const first = pts[0];
+    const last = pts[pts.length - 1];
+    const distance = (last.distance || 0) - (first.distance || 0);
+    const time = (last.time.getTime() - first.time.getTime()) / 1000;
+    const hrs = pts.filter(p => p.hr !== undefined);
+    const { ascent } = calculateElevationGain(pts.map(p => p.altitude), (settings.elevation || DEFAULT_ELEVATION_SETTINGS).threshold);
+    return {
+      distance,
+      time,
+      pace: distance > 0 ? time / (distance / 1000) : 0,
+      avgHR: hrs.length > 0 ? Math.round(hrs.reduce((a, p) => a + p.hr!, 0) / hrs.length) : 0,
+      ascent
+    };
+  }, [activeRun, chartData, runSelection, settings.elevation]);
+
+  // Colored route, legend, distance markers and lap pins for the run map
+  const routeStyle = useMemo(() => {
+    if (!activeRun) return null;
+    const mode = mapSettings.colorMode;
+    const { buckets, breaks } = classifyRoute(activeRun.points, mode, settings);
+    const color = (bucket: number) => (mode === 'route' ? THEMES[settings.theme].accent : bucket < 0 ? NO_DATA_COLOR : ROUTE_PALETTES[mode][bucket]);
+
+    let labels: string[] = [];
+    if (mode === 'pace' && breaks.length > 0) {
+      labels = [`> ${formatPace(breaks[0])}`, ...breaks.slice(1).map((b, i) => `${formatPace(breaks[i])}-${formatPace(b)}`), `< ${formatPace(breaks[breaks.length - 1])}`];
+    } else if (mode === 'hr') {
+      labels = calculateZones(settings).map(z => `${z.label} ${z.min}-${z.max}`);
+    } else if (mode === 'grade') {
+      labels = ['< -8%', '-8 to -3%', '±3%', '3 to 8%', '> 8%'];
+    }
+
+    const unitLength = settings.units === Units.MILES ? 1609.34 : 1000;
+    return {
+      stretches: buildRouteStretches(activeRun.points, buckets).map(st => ({ coords: st.coords, color: color(st.bucket) })),
+      legend: labels.map((label, i) => ({ label, color: color(i) })),
+      markers: findDistanceMarkers(activeRun.points, unitLength),
+      laps: findLapStarts(activeRun.points, activeRun.laps.filter(l => l.source !== 'auto'))
+    };
+  }, [activeRun, mapSettings.colorMode, settings.theme, settings.units, settings.maxHR, settings.restingHR, settings.method, settings.lthr]);
 
   useEffect(() => {
-    if (view === 'run' && activeRun) {
-      setTimeout(() => {
-        if (mapRef.current) mapRef.current.remove();
-        const validPoints = activeRun.points.filter(p => p.lat !== undefined && p.lng !== undefined);
-        if (validPoints.length > 0) {
-          const coords = validPoints.map(p => [p.lat!, p.lng!] as [number, number]);
-          const map = L.map('map', { zoomControl: false, attributionControl: false }).setView(coords[0], 13);
-          L.tileLayer('https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png').addTo(map);
-          L.polyline(coords, { color: THEMES[settings.theme].accent, weight: 5, lineCap: 'round' }).addTo(map);
-          map.fitBounds(L.polyline(coords).getBounds(), { padding: [40, 40] });
-          mapRef.current = map;
-        }
-      }, 100);
+    if (view !== 'run' || !activeRun || !routeStyle) return;
+    const timer = setTimeout(() => {
+      if (mapRef.current) mapRef.current.remove();
+      const validPoints = activeRun.points.filter(p => p.lat !== undefined && p.lng !== undefined);
+      if (validPoints.length > 0) {
+        const coords = validPoints.map(p => [p.lat!, p.lng!] as [number, number]);
+        const map = L.map('map', { zoomControl: false, attributionControl: false }).setView(coords[0], 13);
+        addBaseLayer(map, mapSettings);
+        routeStyle.stretches.forEach(st => L.polyline(st.coords, { color: st.color, weight: 5, lineCap: 'round' }).addTo(map));
+        routeStyle.markers.forEach(m => L.marker([m.lat, m.lng], { icon: pinIcon(m.index, '#ffffff') }).addTo(map));
+        routeStyle.laps.forEach(lap => L.marker([lap.lat, lap.lng], { icon: pinIcon(`L${lap.index}`, '#facc15') }).bindTooltip(`Lap ${lap.index}`).addTo(map));
+        L.circleMarker(coords[0], { radius: 7, color: '#000000', weight: 2, fillColor: '#22c55e', fillOpacity: 1 }).bindTooltip('Start').addTo(map);
+        L.circleMarker(coords[coords.length - 1], { radius: 7, color: '#000000', weight: 2, fillColor: '#ef4444', fillOpacity: 1 }).bindTooltip('Finish').addTo(map);
+        map.fitBounds(L.polyline(coords).getBounds(), { padding: [40, 40] });
+        segmentLayerRef.current = L.layerGroup().addTo(map);
+        selectionLayerRef.current = L.layerGroup().addTo(map);
+        hoverMarkerRef.current = null;
+        // While marking a segment, clicks snap to the nearest track point
+        map.on('click', (e: L.LeafletMouseEvent) => {
+          if (!segmentDraftRef.current) return;
+          let nearest = 0;
+          let nearestDist = Infinity;
+          activeRun.points.forEach((p, i) => {
+            if (p.lat === undefined || p.lng === undefined) return;
+            const d = e.latlng.distanceTo([p.lat, p.lng]);
+            if (d < nearestDist) {
+              nearest = i;
+              nearestDist = d;
+            }
+          });
+          setSegmentDraft(draft => {
+            if (!draft) return draft;
+            if (draft.startIdx === undefined || draft.endIdx !== undefined || nearest <= draft.startIdx) return { ...draft, startIdx: nearest, endIdx: undefined };
+            return { ...draft, endIdx: nearest };
+          });
+        });
+        mapRef.current = map;
+        drawSegmentLayer();
+        drawSelectionLayer();
+      }
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [activeRun, view, routeStyle, mapSettings.tileUrl, mapSettings.offline]);
+
+  // Matched segments of the open run, plus the one being marked
+  const drawSegmentLayer = () => {
+    const layer = segmentLayerRef.current;
+    if (!layer || !activeRun) return;
+    layer.clearLayers();
+    const stretch = (from: number, to: number) => activeRun.points.slice(from, to + 1)
+      .filter(p => p.lat !== undefined && p.lng !== undefined)
+      .map(p => [p.lat!, p.lng!] as [number, number]);
+
+    activeRunSegments.forEach(({ segment, effort }) => {
+      L.polyline(stretch(effort.startIdx, effort.endIdx), { color: '#facc15', weight: 7, opacity: 0.6 })
+        .bindTooltip(segment.name)
+        .addTo(layer);
+    });
+    if (segmentDraft?.startIdx !== undefined) {
+      const p = activeRun.points[segmentDraft.startIdx];
+      if (p.lat !== undefined && p.lng !== undefined) L.circleMarker([p.lat, p.lng], { radius: 6, color: '#ffffff', fillOpacity: 1 }).addTo(layer);
+      if (segmentDraft.endIdx !== undefined) {
+        L.polyline(stretch(segmentDraft.startIdx, segmentDraft.endIdx), { color: '#ffffff', weight: 7 }).addTo(layer);
+      }
     }
-  }, [activeRun, view, settings.theme]);
+  };
+
+  useEffect(() => {
+    if (view === 'run') drawSegmentLayer();
+  }, [segmentDraft, activeRunSegments]);
+
+  // Brushed chart range, highlighted on the route
+  const drawSelectionLayer = () => {
+    const layer = selectionLayerRef.current;
+    if (!layer || !activeRun || !chartData) return;
+    layer.clearLayers();
+    if (!runSelection) return;
+    const coords = activeRun.points
+      .filter((p, i) => p.lat !== undefined && p.lng !== undefined && chartData.xs[i] >= runSelection[0] && chartData.xs[i] <= runSelection[1])
+      .map(p => [p.lat!, p.lng!] as [number, number]);
+    if (coords.length > 1) L.polyline(coords, { color: '#ffffff', weight: 7, opacity: 0.8 }).addTo(layer);
+  };
+
+  useEffect(() => {
+    if (view === 'run') drawSelectionLayer();
+  }, [runSelection, chartData]);
+
+  // Chart hover follows on the map
+  useEffect(() => {
+    const map = mapRef.current;
+    if (view !== 'run' || !map || !activeRun || !chartData) return;
+    const p = runHover !== null ? activeRun.points[pointIndexAt(runHover)] : undefined;
+    if (!p || p.lat === undefined || p.lng === undefined) {
+      hoverMarkerRef.current?.remove();
+      hoverMarkerRef.current = null;
+      return;
+    }
+    if (!hoverMarkerRef.current) {
+      hoverMarkerRef.current = L.circleMarker([p.lat, p.lng], { radius: 7, color: '#ffffff', weight: 2, fillColor: THEMES[settings.theme].accent, fillOpacity: 1 }).addTo(map);
+    } else {
+      hoverMarkerRef.current.setLatLng([p.lat, p.lng]);
+    }
+  }, [runHover]);
+
+  // A new run or axis invalidates the zoom
+  useEffect(() => {
+    setRunSelection(null);
+    setRunHover(null);
+  }, [activeRunId, runAxis]);
+
+  const handleCreateSegment = async () => {
+    if (!activeRun || !segmentDraft || segmentDraft.startIdx === undefined || segmentDraft.endIdx === undefined) return;
+    const segment = createSegment(segmentDraft.name.trim() || `Segment ${segments.length + 1}`, activeRun, segmentDraft.startIdx, segmentDraft.endIdx);
+    setLoading(true);
+    try {
+      // Match every stored run; points are only loaded for runs near the segment
+      for (const run of runs) {
+        if (!mayCoverSegment(segment, run)) continue;
+        const points = run.id === activeRun.id ? activeRun.points : await loadRunPoints(run.id);
+        segment.efforts.push(...matchSegment(segment, { ...run, points }));
+      }
+      await saveSegments([segment]);
+      setSegments(prev => [...prev, segment]);
+      setSegmentDraft(null);
+    } catch (err) {
+      alert("Error creating segment.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteSegment = async (segmentId: string) => {
+    setLoading(true);
+    try {
+      await deleteSegment(segmentId);
+      setSegments(prev => prev.filter(seg => seg.id !== segmentId));
+    } catch (err) {
+      alert("Error deleting segment.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (view !== 'compare' || !compareData) return;
+    const timer = setTimeout(() => {
+      if (mapRef.current) mapRef.current.remove();
+      mapRef.current = null;
+      const route = comparePoints[compareData.runs[0].id].filter(p => p.lat !== undefined && p.lng !== undefined);
+      if (route.length === 0) return;
+      const coords = route.map(p => [p.lat!, p.lng!] as [number, number]);
+      const map = L.map('compare-map', { zoomControl: false, attributionControl: false }).setView(coords[0], 13);
+      addBaseLayer(map, mapSettings);
+      L.polyline(coords, { color: '#ffffff', opacity: 0.25, weight: 5, lineCap: 'round' }).addTo(map);
+      // Baseline route colored by where the compared run gained (green) or lost (red) time
+      compareData.highlights.forEach(h => {
+        const stretch = route.filter(p => (p.distance || 0) >= h.from && (p.distance || 0) <= h.to).map(p => [p.lat!, p.lng!] as [number, number]);
+        if (stretch.length > 1) L.polyline(stretch, { color: h.color, weight: 5, lineCap: 'round' }).addTo(map);
+      });
+      map.fitBounds(L.polyline(coords).getBounds(), { padding: [40, 40] });
+      mapRef.current = map;
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [compareData, view, mapSettings.tileUrl, mapSettings.offline]);
 
   return (
-    <div className="min-h-screen pb-40">
+    <div className="min-h-screen pb-40" onDragOver={e => e.preventDefault()} onDrop={handleDrop}>
       <nav className="fixed top-0 w-full z-50 liquid-glass border-b border-white/10 px-6 py-4 flex justify-between items-center">
         <div className="flex items-center gap-2" onClick={() => setView('dashboard')}>
           <div className="w-8 h-8 rounded-full flex items-center justify-center animate-pulse" style={{ backgroundColor: THEMES[settings.theme].accent }}>
@@ -169,6 +938,9 @@ const App: React.FC = () => {
         <div className="flex gap-4 sm:gap-6">
           <button onClick={() => setView('dashboard')} className={`text-[10px] font-black uppercase tracking-widest transition-all ${view === 'dashboard' ? 'text-white' : 'text-white/40'}`}>Feed</button>
           <button onClick={() => setView('plan')} className={`text-[10px] font-black uppercase tracking-widest transition-all ${view === 'plan' ? 'text-white' : 'text-white/40'}`}>Training</button>
+          <button onClick={() => setView('records')} className={`text-[10px] font-black uppercase tracking-widest transition-all ${view === 'records' ? 'text-white' : 'text-white/40'}`}>Records</button>
+          <button onClick={() => setView('race')} className={`text-[10px] font-black uppercase tracking-widest transition-all ${view === 'race' ? 'text-white' : 'text-white/40'}`}>Race</button>
+          <button onClick={() => setView('compare')} className={`text-[10px] font-black uppercase tracking-widest transition-all ${view === 'compare' ? 'text-white' : 'text-white/40'}`}>Compare</button>
           <button onClick={() => setView('settings')} className={`text-[10px] font-black uppercase tracking-widest transition-all ${view === 'settings' ? 'text-white' : 'text-white/40'}`}>Config</button>
         </div>
       </nav>
@@ -181,10 +953,34 @@ const App: React.FC = () => {
               <p className="text-white/40 text-[10px] font-bold uppercase tracking-[0.4em] mt-2">Endurance Metrics</p>
             </header>
 
+            {loadChart && (
+              <section className="space-y-6">
+                <div className="glass-card p-6 grid grid-cols-4 gap-3">
+                  <MetricTile label="Fitness" value={Math.round(loadChart.current.ctl)} />
+                  <MetricTile label="Fatigue" value={Math.round(loadChart.current.atl)} />
+                  <MetricTile label="Form" value={Math.round(loadChart.current.tsb)} />
+                  <MetricTile label="ACWR" value={loadChart.current.acwr.toFixed(2)} />
+                </div>
+                {loadChart.flags.map(flag => (
+                  <div key={flag.date.getTime()} className={`glass-card px-5 py-3 flex justify-between items-center ${flag.level === 'high' ? 'border-red-500/30 bg-red-500/5' : flag.level === 'elevated' ? 'border-orange-500/30 bg-orange-500/5' : 'border-sky-500/20'}`}>
+                    <span className={`text-[9px] font-black uppercase italic tracking-widest ${flag.level === 'high' ? 'text-red-500' : flag.level === 'elevated' ? 'text-orange-400' : 'text-sky-400'}`}>{flag.message}</span>
+                    <span className="text-[10px] mono text-white/40">{flag.date.toLocaleDateString()} · {flag.acwr.toFixed(2)}</span>
+                  </div>
+                ))}
+                <Chart label="Fitness (CTL)" color={THEMES[settings.theme].accent} data={loadChart.ctlData} xDomain={loadChart.xDomain} xFormat={loadChart.xFormat} unit="TRIMP" />
+                <Chart label="Fatigue (ATL)" color="#ef4444" data={loadChart.atlData} xDomain={loadChart.xDomain} xFormat={loadChart.xFormat} unit="TRIMP" />
+                <Chart label="Form (TSB)" color="#22c55e" data={loadChart.tsbData} xDomain={loadChart.xDomain} xFormat={loadChart.xFormat} unit="" />
+                <div className="space-y-2">
+                  <Chart label="Acute:Chronic Ratio" color="#eab308" data={loadChart.acwrData} xDomain={loadChart.xDomain} xFormat={loadChart.xFormat} unit="" />
+                  <p className="text-[8px] text-white/30 font-black uppercase italic tracking-widest px-2">Safe range {ACWR_SAFE_MIN}-{ACWR_SAFE_MAX}</p>
+                </div>
+              </section>
+            )}
+
             <section className="space-y-4">
               {runs.length === 0 && (
                 <div className="glass-card p-12 text-center border-dashed border-2 border-white/5 opacity-50">
-                  <p className="text-[10px] font-black uppercase tracking-widest italic">Drop TCX to Begin</p>
+                  <p className="text-[10px] font-black uppercase tracking-widest italic">Drop Files, Folders or ZIPs to Begin</p>
                 </div>
               )}
               {runs.map(run => (
@@ -217,44 +1013,130 @@ const App: React.FC = () => {
               <p className="text-white/40 text-[10px] font-bold uppercase tracking-[0.4em] mt-2">Periodic Cycle: {settings.level}</p>
             </header>
 
-            {!activePlan ? (
+            {planDraft ? (
+              <PlanEditor
+                plan={planDraft}
+                accent={THEMES[settings.theme].accent}
+                paceUnit={settings.units}
+                formatPace={formatPace}
+                parsePace={parsePace}
+                onChange={setPlanDraft}
+                onSave={savePlanDraft}
+                onCancel={() => setPlanDraft(null)}
+                onDelete={customPlans.some(p => p.id === planDraft.id) ? () => deletePlan(planDraft.id) : undefined}
+              />
+            ) : !activePlan ? (
               <div className="grid grid-cols-1 gap-4">
-                {['c25k', 'run10k'].map(pId => (
-                  <button key={pId} onClick={() => setSettings(s => ({...s, activePlanId: pId}))} className="glass-card p-8 text-left hover:border-white/20 active:scale-95 transition-all group">
-                    <p className="text-white/20 text-[9px] font-black uppercase tracking-[0.3em] mb-1">Available Program</p>
-                    <h3 className="text-3xl font-black italic uppercase tracking-tighter group-hover:text-glow transition-all" style={{ color: THEMES[settings.theme].accent }}>{pId === 'c25k' ? 'Couch to 5K' : '10K Finisher'}</h3>
-                    <div className="flex gap-4 mt-4">
-                      <div className="px-3 py-1 bg-white/5 rounded-full text-[8px] font-black uppercase tracking-widest text-white/40 italic">{pId === 'c25k' ? '9 Weeks' : '8 Weeks'}</div>
+                {Object.values(allPlans).map(plan => {
+                  const weeks = Math.ceil(Math.max(...plan.sessions.map(s => s.day), 1) / 7);
+                  return (
+                    <div key={plan.id} onClick={() => selectPlan(plan.id)} className="glass-card p-8 text-left cursor-pointer hover:border-white/20 active:scale-95 transition-all group">
+                      <p className="text-white/20 text-[9px] font-black uppercase tracking-[0.3em] mb-1">{plan.custom ? 'Custom Program' : 'Available Program'}</p>
+                      <h3 className="text-3xl font-black italic uppercase tracking-tighter group-hover:text-glow transition-all" style={{ color: THEMES[settings.theme].accent }}>{plan.name}</h3>
+                      <div className="flex items-center gap-4 mt-4">
+                        <div className="px-3 py-1 bg-white/5 rounded-full text-[8px] font-black uppercase tracking-widest text-white/40 italic">{weeks} Week{weeks === 1 ? '' : 's'}</div>
+                        <div className="px-3 py-1 bg-white/5 rounded-full text-[8px] font-black uppercase tracking-widest text-white/40 italic">{plan.sessions.length} Sessions</div>
+                        <div className="ml-auto flex gap-4">
+                          {plan.custom && <button onClick={e => { e.stopPropagation(); setPlanDraft(plan); }} className="text-[8px] font-black uppercase italic tracking-widest text-white/40 hover:text-white transition-colors">Edit</button>}
+                          <button onClick={e => { e.stopPropagation(); setPlanDraft(duplicatePlan(plan)); }} className="text-[8px] font-black uppercase italic tracking-widest text-white/40 hover:text-white transition-colors">Duplicate</button>
+                        </div>
+                      </div>
                     </div>
-                  </button>
-                ))}
+                  );
+                })}
+                <button onClick={() => setPlanDraft(createPlan())} className="py-4 text-[9px] font-black uppercase tracking-widest border border-white/10 rounded-2xl hover:bg-white/5 transition-all">+ New Plan</button>
               </div>
             ) : (
               <div className="space-y-12 pb-20">
                 <div className="flex justify-between items-center px-2">
                   <div className="space-y-1">
                     <h3 className="font-black text-2xl italic uppercase tracking-tighter text-white/90">{activePlan.name}</h3>
-                    <p className="text-[10px] font-black uppercase text-white/30 tracking-widest">Adjusted for {settings.level} level</p>
+                    <p className="text-[10px] font-black uppercase text-white/30 tracking-widest">{allPlans[activePlan.id]?.custom ? 'Custom plan' : `Adjusted for ${settings.level} level`}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={() => exportSessions(fileSlug(activePlan.name), scheduledPlan)} className="px-4 py-2 rounded-full border border-white/10 text-[9px] font-black uppercase text-white/40 italic hover:bg-white/5">Export</button>
+                    <button onClick={() => setPlanDraft(allPlans[activePlan.id]?.custom ? allPlans[activePlan.id] : duplicatePlan(allPlans[activePlan.id]))} className="px-4 py-2 rounded-full border border-white/10 text-[9px] font-black uppercase text-white/40 italic hover:bg-white/5">{allPlans[activePlan.id]?.custom ? 'Edit' : 'Duplicate'}</button>
+                    <button onClick={() => setSettings(s => ({...s, activePlanId: undefined, planSchedule: undefined}))} className="px-4 py-2 rounded-full border border-red-500/30 text-[9px] font-black uppercase text-red-500 italic hover:bg-red-500/10">Reset</button>
                   </div>
-                  <button onClick={() => setSettings(s => ({...s, activePlanId: undefined}))} className="px-4 py-2 rounded-full border border-red-500/30 text-[9px] font-black uppercase text-red-500 italic hover:bg-red-500/10">Reset</button>
                 </div>
 
+                {adjustmentProposals.length > 0 && (
+                  <div className="glass-card p-6 space-y-4">
+                    <p className="text-white/30 text-[10px] font-black uppercase tracking-[0.4em]">Suggested Changes</p>
+                    {adjustmentProposals.map(a => (
+                      <div key={a.id} className="flex justify-between items-center gap-4 border-t border-white/5 pt-3">
+                        <div className="space-y-1">
+                          <p className="text-[11px] font-black italic uppercase tracking-tighter text-white/90">{describeAdjustment(a)}</p>
+                          <p className="text-[10px] text-white/40 leading-relaxed">{a.reason}</p>
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                          <button onClick={() => decideAdjustment(a, 'rejected')} className="px-3 py-1 rounded-full bg-white/5 text-[8px] font-black uppercase italic tracking-widest text-white/40 hover:text-white">Reject</button>
+                          <button onClick={() => decideAdjustment(a, 'accepted')} className="px-3 py-1 rounded-full text-[8px] font-black uppercase italic tracking-widest text-black" style={{ backgroundColor: THEMES[settings.theme].accent }}>Accept</button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {settings.planSchedule && (
+                  <div className="glass-card p-5 flex flex-wrap items-center gap-4">
+                    <div className="flex gap-2">
+                      {(['start', 'race'] as const).map(anchor => (
+                        <button key={anchor} onClick={() => setSettings(s => ({ ...s, planSchedule: { ...s.planSchedule!, anchor } }))} className={`px-3 py-1 rounded-full text-[8px] font-black uppercase italic tracking-widest ${settings.planSchedule!.anchor === anchor ? 'bg-white text-black' : 'bg-white/5 text-white/40'}`}>
+                          {anchor === 'start' ? 'Start Date' : 'Race Date'}
+                        </button>
+                      ))}
+                    </div>
+                    <input type="date" value={settings.planSchedule.date} onChange={e => e.target.value && setSettings(s => ({ ...s, planSchedule: { ...s.planSchedule!, date: e.target.value } }))} className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[10px] font-bold mono outline-none focus:border-white/30" />
+                    <button onClick={matchExistingRuns} className="ml-auto text-[8px] font-black uppercase italic tracking-widest text-white/40 hover:text-white transition-colors">Match Existing Runs</button>
+                  </div>
+                )}
+
                 <div className="space-y-10">
-                  {groupedPlan.map(([weekNum, sessions]) => (
-                    <div key={weekNum} className="space-y-4">
+                  {plannedWeeks.map(({ weekStart, sessions: weekSessions }, weekIdx) => (
+                    <div key={weekStart.getTime()} className="space-y-4">
                       <div className="flex items-center gap-4">
-                        <span className="text-[10px] font-black uppercase tracking-[0.4em] text-white/20">Week {weekNum}</span>
+                        <span className="text-[10px] font-black uppercase tracking-[0.4em] text-white/20">Week {weekIdx + 1} · {weekStart.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
                         <div className="h-px flex-1 bg-white/5"></div>
+                        <button onClick={() => exportSessions(`${fileSlug(activePlan.name)}-week-${weekIdx + 1}`, weekSessions)} className="text-[8px] font-black uppercase italic tracking-widest text-white/30 hover:text-white transition-colors">Export Week</button>
+                      </div>
+
+                      {/* Drop a session card on a day to reschedule it */}
+                      <div className="grid grid-cols-7 gap-1">
+                        {weekDays(weekStart).map(day => {
+                          const isToday = daysBetween(new Date(), day) === 0;
+                          const onDay = weekSessions.filter(s => daysBetween(s.date, day) === 0);
+                          return (
+                            <div key={day.getTime()}
+                                 onDragOver={e => e.preventDefault()}
+                                 onDrop={e => {
+                                   const sessionId = e.dataTransfer.getData('application/x-plan-session');
+                                   if (!sessionId) return;
+                                   e.preventDefault();
+                                   e.stopPropagation();
+                                   rescheduleSession(sessionId, day);
+                                 }}
+                                 className={`rounded-xl p-2 text-center bg-white/[0.03] border ${isToday ? 'border-white/40' : 'border-white/5'}`}>
+                              <span className="block text-[7px] font-black uppercase tracking-widest text-white/30">{day.toLocaleDateString(undefined, { weekday: 'short' })}</span>
+                              <span className="block text-[10px] font-black mono text-white/60">{day.getDate()}</span>
+                              <div className="flex justify-center gap-0.5 h-1.5 mt-1">
+                                {onDay.map(s => <span key={s.session.id} className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: ZONE_COLORS[s.session.targetZone] || '#fff', opacity: s.status === 'completed' ? 0.4 : 1 }}></span>)}
+                              </div>
+                            </div>
+                          );
+                        })}
                       </div>
                       
                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                        {sessions.map((session) => {
+                        {weekSessions.map(({ session, date, status }) => {
                           const linkedRunId = settings.completedSessions[session.id];
                           const run = linkedRunId ? runs.find(r => r.id === linkedRunId) : null;
                           const zoneColor = ZONE_COLORS[session.targetZone] || '#fff';
                           
                           return (
-                              <div key={session.id} 
+                              <div key={session.id}
+                                   draggable={status !== 'completed'}
+                                   onDragStart={e => e.dataTransfer.setData('application/x-plan-session', session.id)}
                                    className={`glass-card p-5 relative overflow-hidden transition-all ${run ? 'bg-green-500/[0.03] border-green-500/20' : 'hover:border-white/20'}`}
                               >
                                 {run && (
@@ -268,10 +1150,12 @@ const App: React.FC = () => {
                                 <div className="flex flex-col h-full gap-4">
                                   <div className="flex justify-between items-start">
                                     <div className="px-2 py-1 rounded bg-white/5 text-[9px] font-black italic tracking-tighter" style={{ color: zoneColor }}>
-                                      DAY {session.day} · Z{session.targetZone}
+                                      {date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })} · Z{session.targetZone}
                                     </div>
-                                    {run && (
+                                    {run ? (
                                       <div className="text-[8px] font-black uppercase text-green-500 italic">Score: {run.compliance?.score}%</div>
+                                    ) : (
+                                      <div className={`text-[8px] font-black uppercase italic ${status === 'overdue' ? 'text-red-500' : status === 'today' ? '' : 'text-white/30'}`} style={status === 'today' ? { color: THEMES[settings.theme].accent } : undefined}>{status}</div>
                                     )}
                                   </div>
 
@@ -280,19 +1164,27 @@ const App: React.FC = () => {
                                       {session.title}
                                     </h4>
                                     <p className="text-white/40 text-[10px] leading-relaxed line-clamp-2">
-                                      {session.description}
+                                      {describeWorkout(session.steps, formatPace)}
+                                      {session.notes && <span className="text-white/30"> · {session.notes}</span>}
+                                      {session.targetPace && <span className="mono font-bold text-white/60"> @ {formatPace(session.targetPace)}/{settings.units}</span>}
                                     </p>
+                                    {run?.compliance?.breakdown && (
+                                      <p className="text-[8px] font-black uppercase italic tracking-widest text-white/30 pt-1">
+                                        In Z{run.compliance.breakdown.targetZone} {run.compliance.breakdown.timeInZonePct}% · Above {run.compliance.breakdown.timeAbovePct}% · Int {run.compliance.breakdown.intensityScore}
+                                      </p>
+                                    )}
                                   </div>
 
                                   <div className="mt-auto flex items-center justify-between pt-2 border-t border-white/5">
                                     <span className="text-[10px] font-black italic text-white/30 uppercase">{session.targetDuration} min</span>
-                                    
-                                    {!run ? (
-                                      <label className="p-2 rounded-lg bg-white/5 cursor-pointer hover:bg-white/10 active:scale-90 transition-all">
-                                          <span className="text-[10px] font-black uppercase italic" style={{ color: THEMES[settings.theme].accent }}>Upload</span>
-                                          <input type="file" accept=".tcx" onChange={(e) => handleFileUpload(e, session.id)} className="hidden" />
-                                      </label>
-                                    ) : (
+
+                                    {!run && (
+                                      <div className="flex gap-3">
+                                        <button onClick={() => exportSession(session, date, 'fit')} className="text-[8px] font-black uppercase italic tracking-widest text-white/30 hover:text-white transition-colors">FIT</button>
+                                        <button onClick={() => exportSession(session, date, 'tcx')} className="text-[8px] font-black uppercase italic tracking-widest text-white/30 hover:text-white transition-colors">TCX</button>
+                                      </div>
+                                    )}
+                                    {run && (
                                       <button onClick={() => { setActiveRunId(run.id); setView('run'); }} className="text-[8px] font-black uppercase italic text-green-500/60 hover:text-green-500 transition-colors">
                                           View Stats
                                       </button>
@@ -306,6 +1198,23 @@ const App: React.FC = () => {
                     </div>
                   ))}
                 </div>
+
+                {(settings.planAdjustments || []).some(a => a.planId === activePlan.id) && (
+                  <div className="glass-card p-6 space-y-3">
+                    <p className="text-white/30 text-[10px] font-black uppercase tracking-[0.4em]">Adjustment History</p>
+                    {(settings.planAdjustments || []).filter(a => a.planId === activePlan.id).slice().reverse().map(a => (
+                      <div key={`${a.id}_${a.decidedAt}`} className="flex justify-between items-baseline gap-4 border-t border-white/5 pt-2">
+                        <div>
+                          <p className="text-[10px] font-black italic uppercase tracking-tighter text-white/70">{describeAdjustment(a)}</p>
+                          <p className="text-[9px] text-white/30">{a.reason}</p>
+                        </div>
+                        <span className={`text-[8px] font-black uppercase italic shrink-0 ${a.status === 'accepted' ? 'text-green-500' : 'text-white/30'}`}>
+                          {a.status} · {new Date(a.decidedAt || a.createdAt).toLocaleDateString()}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -321,9 +1230,30 @@ const App: React.FC = () => {
               <div className="text-right">
                 <p className="text-white/30 text-[10px] font-mono">{activeRun.startTime.toLocaleTimeString()}</p>
                 <p className="font-black italic text-sm" style={{ color: THEMES[settings.theme].accent }}>TE {activeRun.summary.trainingEffect}</p>
+                <button onClick={() => { if (!compareIds.includes(activeRun.id)) toggleCompare(activeRun.id); setView('compare'); }} className="text-[8px] font-black uppercase italic tracking-widest text-white/40 hover:text-white transition-colors">
+                  {compareIds.includes(activeRun.id) ? 'In Comparison' : '+ Compare'}
+                </button>
+                {activeRun.points.length > 0 && (
+                  <div className="flex justify-end gap-3">
+                    {(['tcx', 'gpx', 'csv'] as const).map(format => (
+                      <button key={format} onClick={() => exportRun(activeRun, format)} className="text-[8px] font-black uppercase italic tracking-widest text-white/40 hover:text-white transition-colors">{format}</button>
+                    ))}
+                  </div>
+                )}
               </div>
             </header>
 
+            {activeRunPRs.length > 0 && (
+              <div className="glass-card p-5 border-yellow-500/30 bg-yellow-500/5 space-y-2">
+                <p className="text-yellow-400 text-[10px] font-black uppercase tracking-widest italic">New Personal Record{activeRunPRs.length > 1 ? 's' : ''}</p>
+                <div className="flex flex-wrap gap-2">
+                  {activeRunPRs.map(pr => (
+                    <span key={pr.key} className="px-2 py-1 rounded bg-white/5 text-[10px] mono font-bold text-white/80">{pr.label} {formatDuration(pr.time)}</span>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                <div className="glass-card p-4 space-y-1">
                   <p className="text-[8px] text-white/30 uppercase font-black">GAP</p>
@@ -352,16 +1282,179 @@ const App: React.FC = () => {
               <MetricTile label="Avg HR" value={activeRun.summary.avgHR} unit="bpm" />
               <MetricTile label="Total Ascent" value={Math.round(activeRun.summary.totalAscent)} unit="m" />
               <MetricTile label="Calories" value={activeRun.summary.calories || 0} unit="kcal" />
+              <MetricTile label={`Raw Ascent${activeRun.summary.elevationSource === 'dem' ? ' (vs DEM)' : ''}`} value={activeRun.summary.rawAscent !== undefined ? Math.round(activeRun.summary.rawAscent) : '--'} unit="m" />
+              <MetricTile label="VAM" value={Math.round(activeRun.summary.vam)} unit="m/h" />
             </div>
 
-            <div id="map" className="glass-card overflow-hidden h-[240px]"></div>
+            {(activeRun.summary.avgCadence || activeRun.summary.avgPower || activeRun.summary.avgVerticalOscillation) && (
+              <div className="glass-card p-6 space-y-4">
+                <p className="text-white/30 text-[10px] font-black uppercase tracking-[0.4em]">Running Dynamics</p>
+                <div className="grid grid-cols-3 gap-y-6 gap-x-6">
+                  {activeRun.summary.avgCadence && <MetricTile label="Cadence" value={activeRun.summary.avgCadence} unit="spm" />}
+                  {activeRun.summary.avgStrideLength && <MetricTile label="Stride" value={activeRun.summary.avgStrideLength.toFixed(2)} unit="m" />}
+                  {activeRun.summary.avgPower && <MetricTile label="Avg Power" value={activeRun.summary.avgPower} unit="W" />}
+                  {activeRun.summary.normalizedPower && <MetricTile label="NP" value={activeRun.summary.normalizedPower} unit="W" />}
+                  {activeRun.summary.avgVerticalOscillation && <MetricTile label="Vert Osc" value={activeRun.summary.avgVerticalOscillation.toFixed(1)} unit="mm" />}
+                  {activeRun.summary.avgGroundContactTime && <MetricTile label="GCT" value={activeRun.summary.avgGroundContactTime} unit="ms" />}
+                  <MetricTile label="Variability" value={activeRun.summary.variabilityIndex.toFixed(2)} unit={activeRun.summary.normalizedPower ? 'NP/AP' : 'VI'} />
+                </div>
+              </div>
+            )}
+
+            {activeRun.points.some(p => p.lat !== undefined) && (
+              <div className="space-y-3">
+                <div className="flex justify-end gap-2">
+                  {(['route', 'pace', 'hr', 'grade'] as MapColorMode[]).map(mode => (
+                    <button key={mode} onClick={() => setMapSettings({ colorMode: mode })} className={`px-3 py-1 rounded-full text-[8px] font-black uppercase italic tracking-widest ${mapSettings.colorMode === mode ? 'bg-white text-black' : 'bg-white/5 text-white/40'}`}>
+                      {mode === 'hr' ? 'HR Zone' : mode}
+                    </button>
+                  ))}
+                </div>
+                <div id="map" className={`glass-card overflow-hidden h-[240px] ${segmentDraft ? 'cursor-crosshair ring-1 ring-white/30' : ''}`}></div>
+                {routeStyle && routeStyle.legend.length > 0 && (
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 px-2">
+                    {routeStyle.legend.map(item => (
+                      <span key={item.label} className="flex items-center gap-1.5 text-[8px] font-black uppercase italic tracking-widest text-white/50">
+                        <span className="w-3 h-1 rounded-full" style={{ backgroundColor: item.color }}></span>
+                        {item.label}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {activeRun.points.some(p => p.lat !== undefined) && (
+              <div className="glass-card p-6 space-y-4">
+                <div className="flex justify-between items-center">
+                  <p className="text-white/30 text-[10px] font-black uppercase tracking-[0.4em]">Segments</p>
+                  {!segmentDraft && (
+                    <button onClick={() => setSegmentDraft({ name: '' })} className="text-[8px] font-black uppercase italic tracking-widest text-white/40 hover:text-white transition-colors">+ Mark Segment</button>
+                  )}
+                </div>
+                {segmentDraft && (
+                  <div className="space-y-3">
+                    <p className="text-[9px] mono text-white/50">
+                      {segmentDraft.startIdx === undefined ? 'Click the map where the segment starts.' : segmentDraft.endIdx === undefined ? 'Now click where it ends.' :
+                        `${(((activeRun.points[segmentDraft.endIdx].distance || 0) - (activeRun.points[segmentDraft.startIdx].distance || 0)) / 1000).toFixed(2)} km selected.`}
+                    </p>
+                    <input type="text" value={segmentDraft.name} placeholder="Segment name" onChange={e => setSegmentDraft(d => d && { ...d, name: e.target.value })}
+                      className="w-full bg-white/5 border border-white/10 rounded-2xl p-4 font-black italic text-sm outline-none focus:border-white/30 transition-all" />
+                    <div className="grid grid-cols-2 gap-3">
+                      <button onClick={() => setSegmentDraft(null)} className="py-3 text-[9px] font-black uppercase tracking-widest border border-white/10 rounded-2xl hover:bg-white/5 transition-all">Cancel</button>
+                      <button onClick={handleCreateSegment} disabled={segmentDraft.endIdx === undefined} className="py-3 text-[9px] font-black uppercase tracking-widest border border-white/10 rounded-2xl hover:bg-white/5 transition-all disabled:opacity-30">Save Segment</button>
+                    </div>
+                  </div>
+                )}
+                {activeRunSegments.map(({ segment, effort, rank, total }) => (
+                  <div key={`${segment.id}_${effort.startIdx}`} className="flex justify-between items-center border-t border-white/5 pt-3">
+                    <div>
+                      <p className="text-xs font-black italic uppercase">{segment.name}</p>
+                      <p className="text-[9px] mono text-white/30">{(segment.distance / 1000).toFixed(2)} km · {formatPace(effort.pace)}/{settings.units} · {effort.avgHR || '--'} bpm</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-lg font-black italic mono" style={{ color: rank === 1 ? '#facc15' : undefined }}>{formatDuration(effort.time)}</p>
+                      <p className="text-[8px] font-black uppercase italic text-white/30">{rank === 1 ? 'Best' : `#${rank}`} of {total}</p>
+                    </div>
+                  </div>
+                ))}
+                {activeRouteGroup && (
+                  <div className="flex justify-between items-center border-t border-white/5 pt-3">
+                    <p className="text-[9px] mono text-white/50">Same course as {activeRouteGroup.runIds.length - 1} other run{activeRouteGroup.runIds.length > 2 ? 's' : ''}</p>
+                    <button onClick={() => { setCompareIds([activeRun.id, ...activeRouteGroup.runIds.filter(id => id !== activeRun.id)].slice(0, MAX_COMPARE_RUNS)); setView('compare'); }}
+                      className="text-[8px] font-black uppercase italic tracking-widest text-white/40 hover:text-white transition-colors">Compare Course</button>
+                  </div>
+                )}
+              </div>
+            )}
 
             <div className="space-y-6">
-              <Chart label="Pace (min/km)" color={THEMES[settings.theme].accent} data={chartData.paceData} xDomain={chartData.xDomain} isPace unit="" />
-              <Chart label="Heart Rate (bpm)" color="#ef4444" data={chartData.hrData} xDomain={chartData.xDomain} unit="" />
-              <Chart label="Elevation (m)" color="#3b82f6" data={chartData.altData} xDomain={chartData.xDomain} unit="" />
+              <div className="flex justify-between items-center">
+                <div className="flex gap-1 p-1 bg-white/5 rounded-xl">
+                  {(['time', 'distance'] as ComparisonAxis[]).map(axis => (
+                    <button key={axis} onClick={() => setRunAxis(axis)} className={`px-3 py-1 rounded-lg text-[8px] font-black uppercase transition-all ${runAxis === axis ? 'bg-white text-black' : 'text-white/30'}`}>{axis}</button>
+                  ))}
+                </div>
+                {runSelection ? (
+                  <button onClick={() => setRunSelection(null)} className="text-[8px] font-black uppercase italic tracking-widest text-white/40 hover:text-white transition-colors">Reset Zoom</button>
+                ) : (
+                  <span className="text-[8px] font-black uppercase italic tracking-widest text-white/20">Drag to zoom</span>
+                )}
+              </div>
+              {selectionStats && (
+                <div className="glass-card p-5 grid grid-cols-5 gap-3">
+                  <MetricTile label="Dist" value={(selectionStats.distance / (settings.units === Units.MILES ? 1609.34 : 1000)).toFixed(2)} unit={settings.units} />
+                  <MetricTile label="Time" value={formatDuration(selectionStats.time)} />
+                  <MetricTile label="Pace" value={formatPace(selectionStats.pace)} />
+                  <MetricTile label="HR" value={selectionStats.avgHR || '--'} />
+                  <MetricTile label="Ascent" value={Math.round(selectionStats.ascent)} unit="m" />
+                </div>
+              )}
+              <Chart label="Pace (min/km)" series={chartData.paceSeries} xDomain={runSelection || chartData.xDomain} xFormat={chartData.xFormat} yFormat={chartData.paceFormat} isPace unit={runAxis === 'distance' ? settings.units : ''}
+                hoverX={runHover} onHover={setRunHover} onBrush={setRunSelection} />
+              <Chart label="Heart Rate (bpm)" color="#ef4444" data={chartData.hrData} xDomain={runSelection || chartData.xDomain} xFormat={chartData.xFormat} unit=""
+                hoverX={runHover} onHover={setRunHover} onBrush={setRunSelection} />
+              <Chart label="Elevation (m)" color="#3b82f6" data={chartData.altData} xDomain={runSelection || chartData.xDomain} xFormat={chartData.xFormat} unit=""
+                hoverX={runHover} onHover={setRunHover} onBrush={setRunSelection} />
+              {chartData.dynamicsData.map(series => (
+                <Chart key={series.label} label={series.label} color={series.color} data={series.data} xDomain={runSelection || chartData.xDomain} xFormat={chartData.xFormat} unit=""
+                  hoverX={runHover} onHover={setRunHover} onBrush={setRunSelection} />
+              ))}
             </div>
 
+            {lapSplits.length > 0 && (
+              <div className="glass-card p-6 space-y-4">
+                <p className="text-white/30 text-[10px] font-black uppercase tracking-[0.4em]">
+                  {lapSplits[0].source === 'auto' ? `Splits per ${settings.units}` : 'Laps'}
+                </p>
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="text-[8px] text-white/30 uppercase font-black tracking-widest">
+                      <th className="pb-2">#</th>
+                      <th className="pb-2">Dist</th>
+                      <th className="pb-2">Time</th>
+                      <th className="pb-2">Pace</th>
+                      <th className="pb-2">GAP</th>
+                      <th className="pb-2 text-right">HR</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lapSplits.map(lap => (
+                      <tr key={lap.id} className={`border-t border-white/5 text-xs mono font-bold ${lap.intensity === 'rest' ? 'text-white/30' : 'text-white/80'}`}>
+                        <td className="py-2" style={{ color: THEMES[settings.theme].accent }}>{lap.id}</td>
+                        <td className="py-2">{(lap.distance / (settings.units === Units.MILES ? 1609.34 : 1000)).toFixed(2)}</td>
+                        <td className="py-2">{Math.floor(lap.time / 60)}:{Math.round(lap.time % 60).toString().padStart(2, '0')}</td>
+                        <td className="py-2">{formatPace(lap.avgPace)}</td>
+                        <td className="py-2">{lap.gap ? formatPace(lap.gap) : '--'}</td>
+                        <td className="py-2 text-right">{lap.avgHR || '--'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {activeRun.quality && (
+              <div className="glass-card p-6 space-y-3">
+                <div className="flex justify-between items-baseline">
+                  <p className="text-white/30 text-[10px] font-black uppercase tracking-[0.4em]">Data Quality</p>
+                  <span className={`text-xl font-black italic mono ${activeRun.quality.score >= 80 ? 'text-green-500' : activeRun.quality.score >= 50 ? 'text-yellow-400' : 'text-red-500'}`}>{activeRun.quality.score}</span>
+                </div>
+                {activeRun.quality.issues.length === 0 ? (
+                  <p className="text-white/40 text-[10px] italic">Clean recording, no repairs needed.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {activeRun.quality.issues.map(issue => (
+                      <li key={issue.type} className="flex justify-between gap-3 text-[10px]">
+                        <span className="text-white/60">{issue.message}</span>
+                        <span className={`font-black uppercase italic shrink-0 ${issue.repaired ? 'text-green-500/60' : 'text-yellow-400/60'}`}>{issue.repaired ? 'Repaired' : 'Flagged'}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
             {activeRun.compliance && (
               <div className="glass-card p-6 border-green-500/20 bg-green-500/5">
                 <p className="text-green-400 text-[10px] font-black uppercase tracking-widest italic mb-2">Execution Quality: {activeRun.compliance.score}%</p>
@@ -371,6 +1464,274 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {view === 'records' && (
+          <div className="space-y-10 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <header>
+              <h1 className="text-5xl font-black italic tracking-tighter text-glow uppercase" style={{ color: THEMES[settings.theme].accent }}>RECORDS</h1>
+              <p className="text-white/40 text-[10px] font-bold uppercase tracking-[0.4em] mt-2">Best Efforts</p>
+            </header>
+
+            <section className="space-y-3">
+              {BEST_EFFORT_DISTANCES.map(d => {
+                const history = prHistory[d.key];
+                const pr = history[history.length - 1];
+                return (
+                  <div key={d.key} className="glass-card p-5 space-y-3">
+                    <div className="flex justify-between items-baseline">
+                      <span className="text-[10px] font-black uppercase tracking-widest italic text-white/40">{d.label}</span>
+                      {pr ? (
+                        <button onClick={() => { setActiveRunId(pr.runId); setView('run'); }} className="text-right">
+                          <span className="text-2xl font-black italic mono" style={{ color: THEMES[settings.theme].accent }}>{formatDuration(pr.time)}</span>
+                          <span className="block text-[9px] mono text-white/30">{formatPace(pr.time / (pr.distance / 1000))}/{settings.units} · {pr.date.toLocaleDateString()}</span>
+                        </button>
+                      ) : (
+                        <span className="text-xl font-black italic mono text-white/20">--</span>
+                      )}
+                    </div>
+                    {history.length > 1 && (
+                      <div className="flex flex-wrap gap-2 pt-2 border-t border-white/5">
+                        {history.slice(0, -1).reverse().map(prev => (
+                          <button key={prev.runId} onClick={() => { setActiveRunId(prev.runId); setView('run'); }} className="px-2 py-1 rounded bg-white/5 text-[9px] mono text-white/40 hover:text-white/70">
+                            {formatDuration(prev.time)} · {prev.date.toLocaleDateString()}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </section>
+
+            {segments.length > 0 && (
+              <section className="space-y-3">
+                <p className="text-white/30 text-[10px] font-black uppercase tracking-[0.4em]">Segments</p>
+                {segments.map(segment => {
+                  const board = getLeaderboard(segment);
+                  return (
+                    <div key={segment.id} className="glass-card p-5 space-y-3">
+                      <div className="flex justify-between items-baseline">
+                        <span className="text-[10px] font-black uppercase tracking-widest italic text-white/60">{segment.name} · {(segment.distance / 1000).toFixed(2)} km</span>
+                        <button onClick={() => handleDeleteSegment(segment.id)} className="text-[8px] font-black uppercase italic text-white/20 hover:text-red-500 transition-colors">Delete</button>
+                      </div>
+                      {board.length === 0 ? (
+                        <p className="text-[9px] mono text-white/30">No efforts yet.</p>
+                      ) : (
+                        <table className="w-full text-left">
+                          <thead>
+                            <tr className="text-[8px] text-white/30 uppercase font-black tracking-widest">
+                              <th className="pb-2">#</th>
+                              <th className="pb-2">Date</th>
+                              <th className="pb-2">Time</th>
+                              <th className="pb-2">Pace</th>
+                              <th className="pb-2">GAP</th>
+                              <th className="pb-2">HR</th>
+                            </tr>
+                          </thead>
+                          <tbody className="text-[10px] mono font-bold">
+                            {board.slice(0, 10).map((effort, i) => (
+                              <tr key={`${effort.runId}_${effort.startIdx}`} onClick={() => { setActiveRunId(effort.runId); setView('run'); }} className="border-t border-white/5 cursor-pointer hover:bg-white/5">
+                                <td className="py-2" style={{ color: i === 0 ? '#facc15' : undefined }}>{i + 1}</td>
+                                <td className="py-2 text-white/50">{effort.date.toLocaleDateString()}</td>
+                                <td className="py-2">{formatDuration(effort.time)}</td>
+                                <td className="py-2">{formatPace(effort.pace)}</td>
+                                <td className="py-2">{effort.gap ? formatPace(effort.gap) : '--'}</td>
+                                <td className="py-2">{effort.avgHR || '--'}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  );
+                })}
+              </section>
+            )}
+
+            {routeGroups.length > 0 && (
+              <section className="space-y-3">
+                <p className="text-white/30 text-[10px] font-black uppercase tracking-[0.4em]">Repeated Routes</p>
+                {routeGroups.map(group => {
+                  const groupRuns = group.runIds.map(id => runs.find(r => r.id === id)!).filter(Boolean);
+                  const best = groupRuns.reduce((a, b) => (b.summary.movingTime < a.summary.movingTime ? b : a));
+                  return (
+                    <button key={group.id} onClick={() => { setCompareIds(group.runIds.slice(0, MAX_COMPARE_RUNS)); setView('compare'); }} className="w-full glass-card p-5 flex justify-between items-center hover:bg-white/5 transition-all">
+                      <div className="text-left">
+                        <p className="text-xs font-black italic uppercase">{groupRuns[0].name}</p>
+                        <p className="text-[9px] mono text-white/30">{(group.distance / 1000).toFixed(2)} km · {group.runIds.length} runs</p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-lg font-black italic mono" style={{ color: THEMES[settings.theme].accent }}>{formatDuration(best.summary.movingTime)}</p>
+                        <p className="text-[8px] font-black uppercase italic text-white/30">Best · {best.startTime.toLocaleDateString()}</p>
+                      </div>
+                    </button>
+                  );
+                })}
+              </section>
+            )}
+
+            {paceCurveChart && (
+              <Chart label="Mean-Max Pace" color={THEMES[settings.theme].accent} data={paceCurveChart.data} xDomain={paceCurveChart.xDomain} xFormat={paceCurveChart.xFormat} yFormat={paceCurveChart.yFormat} isPace unit={`min/${settings.units}`} />
+            )}
+          </div>
+        )}
+
+        {view === 'race' && (
+          <div className="space-y-10 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <header>
+              <h1 className="text-5xl font-black italic tracking-tighter text-glow uppercase" style={{ color: THEMES[settings.theme].accent }}>RACE</h1>
+              <p className="text-white/40 text-[10px] font-bold uppercase tracking-[0.4em] mt-2">Predictions{trainingPaces ? ` · VDOT ${trainingPaces.vdot.toFixed(1)}` : ''}</p>
+            </header>
+
+            {!trainingPaces ? (
+              <div className="glass-card p-12 text-center border-dashed border-2 border-white/5 opacity-50">
+                <p className="text-[10px] font-black uppercase tracking-widest italic">Import a run of {MIN_VDOT_DISTANCE}m or more to predict</p>
+              </div>
+            ) : (
+              <>
+                <section className="glass-card p-6">
+                  <table className="w-full text-left">
+                    <thead>
+                      <tr className="text-[8px] text-white/30 uppercase font-black tracking-widest">
+                        <th className="pb-2">Race</th>
+                        <th className="pb-2">Riegel</th>
+                        <th className="pb-2">VDOT</th>
+                        <th className="pb-2 text-right">Pace</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {racePredictions.map(r => (
+                        <tr key={r.key} className="border-t border-white/5 text-xs mono font-bold text-white/80">
+                          <td className="py-3 font-black italic" style={{ color: THEMES[settings.theme].accent }}>{r.label}</td>
+                          <td className="py-3">{r.riegel ? formatDuration(r.riegel) : '--'}</td>
+                          <td className="py-3">{r.vdot ? formatDuration(r.vdot) : '--'}</td>
+                          <td className="py-3 text-right">{r.vdot ? formatPace(r.vdot / (r.distance / 1000)) : '--'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+
+                <section className="glass-card p-8 grid grid-cols-2 gap-y-10 gap-x-12">
+                  <MetricTile label="Easy" value={`${formatPace(trainingPaces.easy[0])}-${formatPace(trainingPaces.easy[1])}`} unit={`/${settings.units}`} />
+                  <MetricTile label="Marathon" value={formatPace(trainingPaces.marathon)} unit={`/${settings.units}`} />
+                  <MetricTile label="Threshold" value={formatPace(trainingPaces.threshold)} unit={`/${settings.units}`} />
+                  <MetricTile label="Interval" value={formatPace(trainingPaces.interval)} unit={`/${settings.units}`} />
+                  <MetricTile label="Repetition" value={formatPace(trainingPaces.repetition)} unit={`/${settings.units}`} />
+                </section>
+              </>
+            )}
+          </div>
+        )}
+
+        {view === 'compare' && (
+          <div className="space-y-10 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <header>
+              <h1 className="text-5xl font-black italic tracking-tighter text-glow uppercase" style={{ color: THEMES[settings.theme].accent }}>COMPARE</h1>
+              <p className="text-white/40 text-[10px] font-bold uppercase tracking-[0.4em] mt-2">First pick is the baseline</p>
+            </header>
+
+            <div className="glass-card p-5 space-y-3">
+              <div className="flex justify-between items-center">
+                <p className="text-white/30 text-[10px] font-black uppercase tracking-[0.4em]">Runs</p>
+                <div className="flex gap-1 p-1 bg-white/5 rounded-xl">
+                  {(['distance', 'time'] as ComparisonAxis[]).map(axis => (
+                    <button key={axis} onClick={() => setCompareAxis(axis)} className={`px-3 py-1 rounded-lg text-[8px] font-black uppercase transition-all ${compareAxis === axis ? 'bg-white text-black' : 'text-white/30'}`}>{axis}</button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+                {runs.map(run => {
+                  const idx = compareIds.indexOf(run.id);
+                  return (
+                    <button key={run.id} onClick={() => toggleCompare(run.id)} className={`px-3 py-1 rounded-full text-[9px] mono transition-all ${idx === -1 ? 'bg-white/5 text-white/40 hover:text-white/70' : 'bg-white/10 text-white'}`}
+                      style={idx === -1 ? undefined : { boxShadow: `inset 0 0 0 1px ${idx === 0 ? THEMES[settings.theme].accent : COMPARE_COLORS[(idx - 1) % COMPARE_COLORS.length]}` }}>
+                      {run.startTime.toLocaleDateString()} · {run.name}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {!compareData && (
+              <div className="glass-card p-12 text-center border-dashed border-2 border-white/5 opacity-50">
+                <p className="text-[10px] font-black uppercase tracking-widest italic">Select at least two runs</p>
+              </div>
+            )}
+
+            {compareData && (
+              <>
+                <div className="glass-card p-6 overflow-x-auto">
+                  <table className="w-full text-left">
+                    <thead>
+                      <tr className="text-[8px] text-white/30 uppercase font-black tracking-widest">
+                        <th className="pb-2"></th>
+                        {compareData.runs.map((run, i) => (
+                          <th key={run.id} className="pb-2 truncate max-w-[100px]" style={{ color: compareData.colors[i] }}>{run.startTime.toLocaleDateString()}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="text-[10px] mono font-bold">
+                      {([
+                        { label: 'Distance', value: (r: RunData) => r.summary.totalDistance, format: (v: number) => `${(v / (settings.units === Units.MILES ? 1609.34 : 1000)).toFixed(2)}`, lowerIsBetter: undefined },
+                        { label: 'Moving', value: (r: RunData) => r.summary.movingTime, format: formatDuration, lowerIsBetter: true },
+                        { label: 'Pace', value: (r: RunData) => r.summary.avgPace, format: formatPace, lowerIsBetter: true },
+                        { label: 'GAP', value: (r: RunData) => r.summary.gap, format: formatPace, lowerIsBetter: true },
+                        { label: 'Avg HR', value: (r: RunData) => r.summary.avgHR, format: (v: number) => `${Math.round(v)}`, lowerIsBetter: true },
+                        { label: 'Ascent', value: (r: RunData) => r.summary.totalAscent, format: (v: number) => `${Math.round(v)}m`, lowerIsBetter: undefined },
+                        { label: 'Decoupling', value: (r: RunData) => r.summary.decoupling, format: (v: number) => `${v.toFixed(1)}%`, lowerIsBetter: true },
+                        { label: 'TE', value: (r: RunData) => r.summary.trainingEffect, format: (v: number) => v.toFixed(1), lowerIsBetter: undefined }
+                      ]).map(row => {
+                        const base = row.value(compareData.runs[0]);
+                        return (
+                          <tr key={row.label} className="border-t border-white/5">
+                            <td className="py-2 text-[8px] text-white/30 uppercase font-black">{row.label}</td>
+                            {compareData.runs.map((run, i) => {
+                              const v = row.value(run);
+                              const diff = i > 0 && v !== undefined && base !== undefined ? v - base : 0;
+                              const better = row.lowerIsBetter === undefined || diff === 0 ? null : (diff < 0) === row.lowerIsBetter;
+                              return (
+                                <td key={run.id} className="py-2">
+                                  {v !== undefined && v !== 0 ? row.format(v) : '--'}
+                                  {i > 0 && diff !== 0 && (
+                                    <span className={`block text-[8px] ${better === null ? 'text-white/30' : better ? 'text-green-500' : 'text-red-500'}`}>
+                                      {diff > 0 ? '+' : '-'}{row.format(Math.abs(diff))}
+                                    </span>
+                                  )}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="space-y-6">
+                  <Chart label="Pace" series={compareData.pace} xDomain={compareData.xDomain} xFormat={compareData.xFormat} yFormat={compareData.paceFormat} isPace unit={compareAxis === 'distance' ? settings.units : 'min'} />
+                  <Chart label="Heart Rate (bpm)" series={compareData.hr} xDomain={compareData.xDomain} xFormat={compareData.xFormat} unit="" />
+                  <Chart label="Elevation (m)" series={compareData.altitude} xDomain={compareData.xDomain} xFormat={compareData.xFormat} unit="" />
+                  <Chart label="Time vs Baseline (s, + behind)" series={compareData.delta} xDomain={compareData.deltaDomain} xFormat={compareData.distanceFormat} highlights={compareData.highlights} unit={settings.units} />
+                </div>
+
+                <div id="compare-map" className="glass-card overflow-hidden h-[240px]"></div>
+
+                {compareData.segments.length > 0 && (
+                  <div className="glass-card p-6 space-y-3">
+                    <p className="text-white/30 text-[10px] font-black uppercase tracking-[0.4em]">Gained / Lost · {compareData.runs[1].name}</p>
+                    {[...compareData.segments].sort((a, b) => Math.abs(b.change) - Math.abs(a.change)).slice(0, 5).map(seg => (
+                      <div key={seg.from} className="flex justify-between items-center text-[10px] mono font-bold">
+                        <span className="text-white/50">{compareData.distanceFormat(seg.from)}–{compareData.distanceFormat(seg.to)} {settings.units}</span>
+                        <span className={seg.change < 0 ? 'text-green-500' : 'text-red-500'}>{seg.change < 0 ? 'gained' : 'lost'} {Math.abs(seg.change).toFixed(0)}s</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
         {view === 'settings' && (
           <div className="space-y-12 animate-in fade-in slide-in-from-top-4 duration-500 pb-20">
              <header>
@@ -399,7 +1760,88 @@ const App: React.FC = () => {
                 </div>
               </div>
               <div className="space-y-4">
-                 <button onClick={() => { localStorage.clear(); window.location.reload(); }} className="w-full py-4 text-[9px] font-black text-red-500 uppercase tracking-widest border border-red-500/10 rounded-2xl hover:bg-red-500/5 transition-all">Wipe Engine Data</button>
+                <label className="text-white/30 text-[9px] font-black uppercase tracking-widest block italic">Zone Method</label>
+                <div className="flex gap-2 p-1 bg-white/5 rounded-2xl">
+                  {Object.values(HRZoneMethod).map(m => (
+                    <button key={m} onClick={() => setSettings(s => ({...s, method: m}))} className={`flex-1 py-3 rounded-xl text-[10px] font-black uppercase transition-all ${settings.method === m ? 'bg-white text-black' : 'text-white/30'}`}>{m.replace('_', ' ')}</button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <label className="text-white/30 text-[9px] font-black uppercase tracking-widest block italic">Lactate Threshold</label>
+                  <button onClick={() => setSettings(s => ({...s, thresholdManual: !s.thresholdManual}))} className={`px-3 py-1 rounded-full text-[8px] font-black uppercase italic tracking-widest ${settings.thresholdManual ? 'bg-white text-black' : 'bg-white/5 text-white/40'}`}>
+                    {settings.thresholdManual ? 'Manual' : 'Auto'}
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-6">
+                  <div>
+                    <label className="text-white/30 text-[9px] font-black uppercase tracking-widest mb-2 block italic">Pace /{settings.units}</label>
+                    <input type="text" key={settings.thresholdPace} defaultValue={formatPace(settings.thresholdPace || DEFAULT_THRESHOLD_PACE)} disabled={!settings.thresholdManual}
+                      onBlur={e => { const pace = parsePace(e.target.value); if (pace) setSettings(s => ({ ...s, thresholdPace: pace })); }}
+                      className="w-full bg-white/5 border border-white/10 rounded-2xl p-5 font-black italic text-2xl outline-none focus:border-white/30 transition-all disabled:opacity-40" />
+                  </div>
+                  <div>
+                    <label className="text-white/30 text-[9px] font-black uppercase tracking-widest mb-2 block italic">LTHR</label>
+                    <input type="number" value={settings.lthr || ''} placeholder="--" disabled={!settings.thresholdManual} onChange={e => setSettings(s => ({ ...s, lthr: +e.target.value || undefined }))} className="w-full bg-white/5 border border-white/10 rounded-2xl p-5 font-black italic text-2xl outline-none focus:border-white/30 transition-all disabled:opacity-40" />
+                  </div>
+                </div>
+                {!settings.thresholdManual && (
+                  <button onClick={() => detectThreshold(runs)} className="w-full py-4 text-[9px] font-black uppercase tracking-widest border border-white/10 rounded-2xl hover:bg-white/5 transition-all">Detect From Runs</button>
+                )}
+              </div>
+              <div className="space-y-4">
+                <label className="text-white/30 text-[9px] font-black uppercase tracking-widest block italic">Elevation Correction</label>
+                <div className="grid grid-cols-2 gap-6">
+                  <div>
+                    <label className="text-white/30 text-[9px] font-black uppercase tracking-widest mb-2 block italic">Smoothing (s)</label>
+                    <input type="number" min={0} value={elevation.smoothingSeconds} onChange={e => setElevation({ smoothingSeconds: Math.max(0, +e.target.value || 0) })} className="w-full bg-white/5 border border-white/10 rounded-2xl p-5 font-black italic text-2xl outline-none focus:border-white/30 transition-all" />
+                  </div>
+                  <div>
+                    <label className="text-white/30 text-[9px] font-black uppercase tracking-widest mb-2 block italic">Threshold (m)</label>
+                    <input type="number" min={0} step={0.5} value={elevation.threshold} onChange={e => setElevation({ threshold: Math.max(0, +e.target.value || 0) })} className="w-full bg-white/5 border border-white/10 rounded-2xl p-5 font-black italic text-2xl outline-none focus:border-white/30 transition-all" />
+                  </div>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-white/30 text-[9px] font-black uppercase tracking-widest italic">DEM Terrain (SRTM .hgt)</span>
+                  <button onClick={() => setElevation({ useDEM: !elevation.useDEM })} className={`px-3 py-1 rounded-full text-[8px] font-black uppercase italic tracking-widest ${elevation.useDEM ? 'bg-white text-black' : 'bg-white/5 text-white/40'}`}>
+                    {elevation.useDEM ? 'On' : 'Off'}
+                  </button>
+                </div>
+                {demTileNames.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {demTileNames.map(name => (
+                      <button key={name} onClick={() => handleDemDelete(name)} title="Remove tile" className="px-3 py-1 rounded-full bg-white/5 text-[9px] mono text-white/60 hover:text-red-500 transition-all">{name} ×</button>
+                    ))}
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="py-4 text-center text-[9px] font-black uppercase tracking-widest border border-white/10 rounded-2xl hover:bg-white/5 transition-all cursor-pointer">
+                    Add DEM Tiles
+                    <input type="file" multiple accept=".hgt" onChange={handleDemUpload} className="hidden" />
+                  </label>
+                  <button onClick={reprocessElevation} className="py-4 text-[9px] font-black uppercase tracking-widest border border-white/10 rounded-2xl hover:bg-white/5 transition-all">Reprocess Runs</button>
+                </div>
+              </div>
+              <div className="space-y-4">
+                <label className="text-white/30 text-[9px] font-black uppercase tracking-widest block italic">Map Tiles</label>
+                <input type="text" value={mapSettings.tileUrl} placeholder={DEFAULT_TILE_URL} disabled={mapSettings.offline} onChange={e => setMapSettings({ tileUrl: e.target.value })} className="w-full bg-white/5 border border-white/10 rounded-2xl p-5 mono text-[10px] outline-none focus:border-white/30 transition-all disabled:opacity-40" />
+                <div className="flex justify-between items-center">
+                  <span className="text-white/30 text-[9px] font-black uppercase tracking-widest italic">Offline (no tiles)</span>
+                  <button onClick={() => setMapSettings({ offline: !mapSettings.offline })} className={`px-3 py-1 rounded-full text-[8px] font-black uppercase italic tracking-widest ${mapSettings.offline ? 'bg-white text-black' : 'bg-white/5 text-white/40'}`}>
+                    {mapSettings.offline ? 'On' : 'Off'}
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <button onClick={handleExportBackup} className="py-4 text-[9px] font-black uppercase tracking-widest border border-white/10 rounded-2xl hover:bg-white/5 transition-all">Export Backup</button>
+                <label className="py-4 text-center text-[9px] font-black uppercase tracking-widest border border-white/10 rounded-2xl hover:bg-white/5 transition-all cursor-pointer">
+                  Import Backup
+                  <input type="file" accept=".gz,.json" onChange={handleImportBackup} className="hidden" />
+                </label>
+              </div>
+              <div className="space-y-4">
+                 <button onClick={() => { clearRuns().finally(() => { localStorage.clear(); window.location.reload(); }); }} className="w-full py-4 text-[9px] font-black text-red-500 uppercase tracking-widest border border-red-500/10 rounded-2xl hover:bg-red-500/5 transition-all">Wipe Engine Data</button>
               </div>
             </section>
           </div>
@@ -411,8 +1853,8 @@ const App: React.FC = () => {
           <div className="w-6 h-6 rounded-full border-2 border-white/20 flex items-center justify-center group-hover:scale-110 transition-transform">
              <div className="w-2 h-2 rounded-full bg-white animate-pulse"></div>
           </div>
-          Import Trace (TCX)
-          <input type="file" accept=".tcx" onChange={(e) => handleFileUpload(e)} className="hidden" />
+          Import Traces (TCX / FIT / GPX / ZIP)
+          <input type="file" multiple accept={[...SUPPORTED_EXTENSIONS, '.zip'].join(',')} onChange={(e) => handleFileUpload(e)} className="hidden" />
         </label>
       </div>
 
@@ -420,6 +1862,41 @@ const App: React.FC = () => {
         <div className="fixed inset-0 z-[100] bg-black/95 flex flex-col items-center justify-center backdrop-blur-3xl">
           <div className="w-20 h-20 border-8 border-white/5 border-t-white rounded-full animate-spin" style={{ borderTopColor: THEMES[settings.theme].accent }}></div>
           <p className="text-[10px] font-black italic uppercase tracking-[0.5em] mt-10">Parsing Physiology...</p>
+          {importProgress && importProgress.total > 1 && (
+            <div className="w-64 mt-8 space-y-2">
+              <div className="h-1 rounded-full bg-white/10 overflow-hidden">
+                <div className="h-full transition-all" style={{ width: `${(importProgress.done / importProgress.total) * 100}%`, backgroundColor: THEMES[settings.theme].accent }}></div>
+              </div>
+              <p className="text-[9px] mono text-white/40 text-center truncate">{importProgress.done}/{importProgress.total} {importProgress.fileName || ''}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {importReport && (
+        <div className="fixed inset-0 z-[90] bg-black/80 flex items-center justify-center p-5 backdrop-blur-xl">
+          <div className="glass-card p-6 w-full max-w-md max-h-[80vh] flex flex-col gap-4">
+            <div className="flex justify-between items-center">
+              <p className="text-white/30 text-[10px] font-black uppercase tracking-[0.4em]">Import Report</p>
+              <button onClick={() => setImportReport(null)} className="text-[9px] font-black uppercase italic text-white/40 hover:text-white">Close</button>
+            </div>
+            <div className="flex gap-3 text-[9px] font-black uppercase italic tracking-widest">
+              <span className="text-green-500">{importReport.filter(r => r.status === 'imported').length} imported</span>
+              <span className="text-yellow-400">{importReport.filter(r => r.status === 'duplicate').length} duplicate</span>
+              <span className="text-red-500">{importReport.filter(r => r.status === 'failed').length} failed</span>
+            </div>
+            <div className="overflow-y-auto space-y-2">
+              {importReport.map((r, i) => (
+                <div key={`${r.fileName}_${i}`} className="flex justify-between items-start gap-3 border-t border-white/5 pt-2">
+                  <div className="min-w-0">
+                    <p className="text-xs mono font-bold text-white/80 truncate">{r.fileName}</p>
+                    {r.reason && <p className="text-[10px] text-white/40">{r.reason}</p>}
+                  </div>
+                  <span className={`text-[8px] font-black uppercase italic shrink-0 ${r.status === 'imported' ? 'text-green-500' : r.status === 'duplicate' ? 'text-yellow-400' : 'text-red-500'}`}>{r.status}</span>
+                </div>
+              ))}
+            </div>
+          </div>
         </div>
       )}
     </div>
@@ -1,62 +1,184 @@
-
 import React, { useRef, useEffect } from 'react';
 import * as d3 from 'd3';
 
-interface ChartProps {
-  data: { x: number; y: number }[];
+type ChartPoint = { x: number; y: number };
+
+export interface ChartSeries {
+  data: ChartPoint[];
   color: string;
+  label?: string;
+  dashed?: boolean;
+}
+
+interface ChartProps {
+  // Single series shorthand; `series` draws several lines on shared axes instead
+  data?: ChartPoint[];
+  color?: string;
+  series?: ChartSeries[];
   label: string;
   unit: string;
   xDomain: [number, number];
   isPace?: boolean;
+  xFormat?: (x: number) => string;
+  yFormat?: (y: number) => string;
+  // Shaded x ranges, e.g. where one effort gained or lost time
+  highlights?: { from: number; to: number; color: string }[];
+  // Linked interaction: a shared hover position and brush selection across charts
+  hoverX?: number | null;
+  onHover?: (x: number | null) => void;
+  onBrush?: (range: [number, number]) => void;
 }
 
-const Chart: React.FC<ChartProps> = ({ data, color, label, unit, xDomain, isPace = false }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
+const formatMinutes = (x: number) => `${Math.floor(x / 60)}m`;
+const formatValue = (y: number) => (Math.abs(y) >= 100 ? Math.round(y).toString() : y.toFixed(1).replace(/\.0$/, ''));
 
-  useEffect(() => {
-    if (!svgRef.current || data.length === 0) return;
+const HEIGHT = 120;
+const MARGIN = { top: 10, right: 0, bottom: 20, left: 28 };
 
-    const width = svgRef.current.clientWidth;
-    const height = 120;
-    const margin = { top: 10, right: 0, bottom: 20, left: 0 };
+const bisectX = d3.bisector<ChartPoint, number>(d => d.x).center;
+
+/**
+ * Value of a series nearest to x, if x falls within its data.
+ */
+const valueAt = (data: ChartPoint[], x: number): number | undefined => {
+  if (data.length === 0 || x < data[0].x || x > data[data.length - 1].x) return undefined;
+  return data[bisectX(data, x)].y;
+};
 
+const Chart: React.FC<ChartProps> = ({
+  data, color = '#ffffff', series, label, unit, xDomain, isPace = false, xFormat = formatMinutes, yFormat = formatValue,
+  highlights, hoverX = null, onHover, onBrush
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const scalesRef = useRef<{ x: d3.ScaleLinear<number, number>; y: d3.ScaleLinear<number, number> } | null>(null);
+  const lines = (series || [{ data: data || [], color }]).filter(s => s.data.length > 0);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
     const svg = d3.select(svgRef.current);
     svg.selectAll("*").remove();
+    scalesRef.current = null;
+    if (lines.length === 0) return;
 
-    const x = d3.scaleLinear().domain(xDomain).range([margin.left, width - margin.right]);
+    const width = svgRef.current.clientWidth;
+    const clipId = `clip-${Math.random().toString(36).slice(2)}`;
+
+    // Y range follows what is visible, so zooming in rescales it
+    const visible = lines.flatMap(s => s.data.filter(d => d.x >= xDomain[0] && d.x <= xDomain[1]));
+    const all = visible.length > 0 ? visible : lines.flatMap(s => s.data);
+    const x = d3.scaleLinear().domain(xDomain).range([MARGIN.left, width - MARGIN.right]);
     const y = d3.scaleLinear()
-      .domain([d3.min(data, d => d.y) || 0, d3.max(data, d => d.y) || 100])
-      .range(isPace ? [margin.top, height - margin.bottom] : [height - margin.bottom, margin.top]);
+      .domain([d3.min(all, d => d.y) || 0, d3.max(all, d => d.y) || 100])
+      .range(isPace ? [MARGIN.top, HEIGHT - MARGIN.bottom] : [HEIGHT - MARGIN.bottom, MARGIN.top]);
+    scalesRef.current = { x, y };
+
+    svg.append("clipPath").attr("id", clipId)
+      .append("rect").attr("x", MARGIN.left).attr("y", 0).attr("width", width - MARGIN.left - MARGIN.right).attr("height", HEIGHT);
+    const plot = svg.append("g").attr("clip-path", `url(#${clipId})`);
 
-    const line = d3.line<{ x: number; y: number }>()
+    (highlights || []).forEach(h => {
+      plot.append("rect")
+        .attr("x", x(h.from)).attr("width", Math.max(1, x(h.to) - x(h.from)))
+        .attr("y", MARGIN.top).attr("height", HEIGHT - MARGIN.top - MARGIN.bottom)
+        .attr("fill", h.color).attr("fill-opacity", 0.15);
+    });
+
+    const line = d3.line<ChartPoint>()
       .x(d => x(d.x))
       .y(d => y(d.y))
       .curve(d3.curveBasis);
 
-    const area = d3.area<{ x: number; y: number }>()
+    const area = d3.area<ChartPoint>()
       .x(d => x(d.x))
-      .y0(isPace ? margin.top : height - margin.bottom)
+      .y0(isPace ? MARGIN.top : HEIGHT - MARGIN.bottom)
       .y1(d => y(d.y))
       .curve(d3.curveBasis);
 
-    svg.append("path").datum(data).attr("fill", color).attr("fill-opacity", 0.1).attr("d", area);
-    svg.append("path").datum(data).attr("fill", "none").attr("stroke", color).attr("stroke-width", 2.5).attr("d", line);
+    // Area fill only when the line is alone, overlapping fills get muddy
+    if (lines.length === 1) plot.append("path").datum(lines[0].data).attr("fill", lines[0].color).attr("fill-opacity", 0.1).attr("d", area);
+    lines.forEach((s, i) => {
+      plot.append("path").datum(s.data)
+        .attr("fill", "none")
+        .attr("stroke", s.color)
+        .attr("stroke-width", i === 0 ? 2.5 : 1.5)
+        .attr("stroke-dasharray", s.dashed ? "4 3" : null)
+        .attr("d", line);
+    });
 
     // X Axis
     svg.append("g")
-      .attr("transform", `translate(0,${height - margin.bottom})`)
+      .attr("transform", `translate(0,${HEIGHT - MARGIN.bottom})`)
+      .attr("class", "text-zinc-600 font-mono text-[8px]")
+      .call(d3.axisBottom(x).ticks(5).tickFormat(d => xFormat(+d)).tickSize(0).tickPadding(8))
+      .call(g => g.select(".domain").remove());
+
+    // Y Axis
+    svg.append("g")
+      .attr("transform", `translate(${MARGIN.left},0)`)
       .attr("class", "text-zinc-600 font-mono text-[8px]")
-      .call(d3.axisBottom(x).ticks(5).tickFormat(d => `${Math.floor(+d/60)}m`).tickSize(0).tickPadding(8))
+      .call(d3.axisLeft(y).ticks(3).tickFormat(d => yFormat(+d)).tickSize(0).tickPadding(4))
       .call(g => g.select(".domain").remove());
 
-  }, [data, color, xDomain, isPace]);
+    svg.append("g").attr("class", "hover-layer").style("pointer-events", "none");
+
+    if (onBrush) {
+      const brush = d3.brushX()
+        .extent([[MARGIN.left, MARGIN.top], [width - MARGIN.right, HEIGHT - MARGIN.bottom]])
+        .on("end", (event: d3.D3BrushEvent<unknown>) => {
+          if (!event.selection) return;
+          const [x0, x1] = event.selection as [number, number];
+          svg.select<SVGGElement>(".brush").call(brush.move, null);
+          if (x1 - x0 > 2) onBrush([x.invert(x0), x.invert(x1)]);
+        });
+      svg.append("g").attr("class", "brush").call(brush);
+    }
+
+    if (onHover) {
+      svg
+        .on("mousemove", (event: MouseEvent) => {
+          const [mx] = d3.pointer(event);
+          onHover(mx >= MARGIN.left ? x.invert(mx) : null);
+        })
+        .on("mouseleave", () => onHover(null));
+    }
+
+  }, [data, color, series, xDomain, isPace, xFormat, yFormat, highlights, onHover, onBrush]);
+
+  useEffect(() => {
+    if (!svgRef.current || !scalesRef.current) return;
+    const { x, y } = scalesRef.current;
+    const layer = d3.select(svgRef.current).select(".hover-layer");
+    layer.selectAll("*").remove();
+    if (hoverX === null || hoverX < xDomain[0] || hoverX > xDomain[1]) return;
+
+    layer.append("line")
+      .attr("x1", x(hoverX)).attr("x2", x(hoverX))
+      .attr("y1", MARGIN.top).attr("y2", HEIGHT - MARGIN.bottom)
+      .attr("stroke", "#ffffff").attr("stroke-opacity", 0.4);
+    lines.forEach(s => {
+      const v = valueAt(s.data, hoverX);
+      if (v !== undefined) layer.append("circle").attr("cx", x(hoverX)).attr("cy", y(v)).attr("r", 3).attr("fill", s.color);
+    });
+  }, [hoverX, data, series, xDomain, highlights]);
+
+  const hovered = hoverX !== null ? lines.map(s => valueAt(s.data, hoverX)) : [];
 
   return (
     <div className="bg-white/5 p-4 rounded-3xl border border-white/5">
       <div className="flex justify-between items-baseline mb-2">
         <span className="text-[9px] text-zinc-500 uppercase font-black tracking-widest italic">{label}</span>
-        <span className="text-[10px] mono text-zinc-300 font-bold">{unit}</span>
+        <div className="flex items-baseline gap-3">
+          {lines.map((s, i) => {
+            const v = hovered[i];
+            if (!s.label && v === undefined) return null;
+            return (
+              <span key={i} className="text-[8px] font-black uppercase italic tracking-widest" style={{ color: s.color }}>
+                {s.dashed ? '- - ' : ''}{s.label}{v !== undefined ? ` ${yFormat(v)}` : ''}
+              </span>
+            );
+          })}
+          <span className="text-[10px] mono text-zinc-300 font-bold">{hoverX !== null ? xFormat(hoverX) : unit}</span>
+        </div>
       </div>
       <svg ref={svgRef} className="w-full h-[120px] overflow-visible" />
     </div>
@@ -0,0 +1,183 @@
+import React from 'react';
+import { TrainingPlan, PlanSession, WorkoutItem, WorkoutStep, WorkoutSegmentType, StepDurationType, StepTargetType } from '../types';
+import { isRepeat, createStep, createRepeat, createSession } from '../services/workouts';
+
+interface PlanEditorProps {
+  plan: TrainingPlan;
+  accent: string;
+  paceUnit: string;
+  formatPace: (secPerKm: number) => string;
+  parsePace: (value: string) => number | undefined;
+  onChange: (plan: TrainingPlan) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  onDelete?: () => void;
+}
+
+const KINDS: WorkoutSegmentType[] = ['warmup', 'work', 'recovery', 'steady', 'cooldown'];
+const DURATIONS: StepDurationType[] = ['time', 'distance', 'open'];
+const TARGETS: StepTargetType[] = ['none', 'hrZone', 'pace', 'power'];
+
+const inputClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[10px] font-bold outline-none focus:border-white/30 transition-all';
+const labelClass = 'text-white/30 text-[8px] font-black uppercase tracking-widest italic';
+const linkClass = 'text-[8px] font-black uppercase italic tracking-widest text-white/40 hover:text-white transition-colors';
+
+interface StepRowProps {
+  step: WorkoutStep;
+  paceUnit: string;
+  formatPace: (secPerKm: number) => string;
+  parsePace: (value: string) => number | undefined;
+  onChange: (step: WorkoutStep) => void;
+  onRemove: () => void;
+}
+
+const StepRow: React.FC<StepRowProps> = ({ step, paceUnit, formatPace, parsePace, onChange, onRemove }) => {
+  const set = (patch: Partial<WorkoutStep>) => onChange({ ...step, ...patch });
+  // A new HR target starts at the zone the select shows; other targets drop it
+  const setTargetType = (targetType: StepTargetType) =>
+    set({ targetType, targetZone: targetType === 'hrZone' ? step.targetZone || 2 : undefined, targetLow: undefined, targetHigh: undefined });
+  // Pace fields are typed as m:ss and only parsed when the field is left
+  const paceInput = (field: 'targetLow' | 'targetHigh') => (
+    <input
+      key={`${field}-${step[field]}`}
+      defaultValue={step[field] ? formatPace(step[field]!) : ''}
+      placeholder="m:ss"
+      onBlur={e => set({ [field]: parsePace(e.target.value) })}
+      className={`${inputClass} w-16 mono`}
+    />
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select value={step.kind} onChange={e => set({ kind: e.target.value as WorkoutSegmentType })} className={inputClass}>
+        {KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+      </select>
+      <select value={step.durationType} onChange={e => set({ durationType: e.target.value as StepDurationType })} className={inputClass}>
+        {DURATIONS.map(d => <option key={d} value={d}>{d}</option>)}
+      </select>
+      {step.durationType === 'time' && (
+        <span className="flex items-center gap-1">
+          <input type="number" min={0} step={0.5} value={(step.durationValue || 0) / 60} onChange={e => set({ durationValue: Math.round((+e.target.value || 0) * 60) })} className={`${inputClass} w-16`} />
+          <span className={labelClass}>min</span>
+        </span>
+      )}
+      {step.durationType === 'distance' && (
+        <span className="flex items-center gap-1">
+          <input type="number" min={0} step={50} value={step.durationValue || 0} onChange={e => set({ durationValue: Math.max(0, +e.target.value || 0) })} className={`${inputClass} w-20`} />
+          <span className={labelClass}>m</span>
+        </span>
+      )}
+      <select value={step.targetType} onChange={e => setTargetType(e.target.value as StepTargetType)} className={inputClass}>
+        {TARGETS.map(t => <option key={t} value={t}>{t === 'hrZone' ? 'HR zone' : t}</option>)}
+      </select>
+      {step.targetType === 'hrZone' && (
+        <select value={step.targetZone || 2} onChange={e => set({ targetZone: +e.target.value })} className={inputClass}>
+          {[1, 2, 3, 4, 5].map(z => <option key={z} value={z}>Z{z}</option>)}
+        </select>
+      )}
+      {step.targetType === 'pace' && (
+        <span className="flex items-center gap-1">
+          {paceInput('targetLow')}<span className={labelClass}>-</span>{paceInput('targetHigh')}<span className={labelClass}>/{paceUnit}</span>
+        </span>
+      )}
+      {step.targetType === 'power' && (
+        <span className="flex items-center gap-1">
+          <input type="number" min={0} value={step.targetLow || ''} onChange={e => set({ targetLow: +e.target.value || undefined })} className={`${inputClass} w-16`} />
+          <span className={labelClass}>-</span>
+          <input type="number" min={0} value={step.targetHigh || ''} onChange={e => set({ targetHigh: +e.target.value || undefined })} className={`${inputClass} w-16`} />
+          <span className={labelClass}>W</span>
+        </span>
+      )}
+      <button onClick={onRemove} title="Remove step" className="text-white/30 hover:text-red-500 text-xs transition-colors">×</button>
+    </div>
+  );
+};
+
+const replaceAt = <T,>(list: T[], index: number, value: T) => list.map((v, i) => (i === index ? value : v));
+const removeAt = <T,>(list: T[], index: number) => list.filter((_, i) => i !== index);
+
+/**
+ * Plan Editor
+ * Edits a custom plan's sessions and their structured steps. Changes go
+ * to the draft through onChange; nothing is stored until onSave.
+ */
+const PlanEditor: React.FC<PlanEditorProps> = ({ plan, accent, paceUnit, formatPace, parsePace, onChange, onSave, onCancel, onDelete }) => {
+  const setSession = (index: number, patch: Partial<PlanSession>) =>
+    onChange({ ...plan, sessions: replaceAt(plan.sessions, index, { ...plan.sessions[index], ...patch }) });
+  const stepProps = { paceUnit, formatPace, parsePace };
+
+  return (
+    <div className="space-y-8 pb-20">
+      <div className="flex justify-between items-center gap-4 px-2">
+        <input value={plan.name} onChange={e => onChange({ ...plan, name: e.target.value })} className="flex-1 bg-transparent border-b border-white/10 font-black text-2xl italic uppercase tracking-tighter outline-none focus:border-white/30" />
+        <div className="flex gap-2">
+          {onDelete && <button onClick={onDelete} className="px-4 py-2 rounded-full border border-red-500/30 text-[9px] font-black uppercase text-red-500 italic hover:bg-red-500/10">Delete</button>}
+          <button onClick={onCancel} className="px-4 py-2 rounded-full border border-white/10 text-[9px] font-black uppercase text-white/40 italic hover:bg-white/5">Cancel</button>
+          <button onClick={onSave} className="px-4 py-2 rounded-full text-[9px] font-black uppercase text-black italic" style={{ backgroundColor: accent }}>Save</button>
+        </div>
+      </div>
+
+      {plan.sessions.map((session, si) => {
+        const setSteps = (steps: WorkoutItem[]) => setSession(si, { steps });
+        return (
+          <div key={session.id} className="glass-card p-5 space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="space-y-1">
+                <span className={`${labelClass} block`}>Day</span>
+                <input type="number" min={1} value={session.day} onChange={e => setSession(si, { day: Math.max(1, +e.target.value || 1) })} className={`${inputClass} w-16`} />
+              </label>
+              <label className="space-y-1 flex-1 min-w-[140px]">
+                <span className={`${labelClass} block`}>Title</span>
+                <input value={session.title} onChange={e => setSession(si, { title: e.target.value })} className={`${inputClass} w-full`} />
+              </label>
+              <label className="space-y-1">
+                <span className={`${labelClass} block`}>Minutes</span>
+                <input type="number" min={1} value={session.targetDuration} onChange={e => setSession(si, { targetDuration: Math.max(1, +e.target.value || 1) })} className={`${inputClass} w-16`} />
+              </label>
+              <label className="space-y-1">
+                <span className={`${labelClass} block`}>Zone</span>
+                <select value={session.targetZone} onChange={e => setSession(si, { targetZone: +e.target.value })} className={inputClass}>
+                  {[1, 2, 3, 4, 5].map(z => <option key={z} value={z}>Z{z}</option>)}
+                </select>
+              </label>
+              <button onClick={() => onChange({ ...plan, sessions: removeAt(plan.sessions, si) })} className="text-[8px] font-black uppercase italic tracking-widest text-red-500/60 hover:text-red-500 transition-colors pb-2">Remove</button>
+            </div>
+
+            <div className="space-y-3">
+              {session.steps.map((item, ii) => isRepeat(item) ? (
+                <div key={ii} className="border-l-2 pl-3 space-y-2" style={{ borderColor: accent }}>
+                  <div className="flex items-center gap-2">
+                    <span className={labelClass}>Repeat</span>
+                    <input type="number" min={1} value={item.count} onChange={e => setSteps(replaceAt(session.steps, ii, { ...item, count: Math.max(1, +e.target.value || 1) }))} className={`${inputClass} w-14`} />
+                    <span className={labelClass}>x</span>
+                    <button onClick={() => setSteps(replaceAt(session.steps, ii, { ...item, steps: [...item.steps, createStep('recovery')] }))} className={linkClass}>+ Step</button>
+                    <button onClick={() => setSteps(removeAt(session.steps, ii))} title="Remove block" className="text-white/30 hover:text-red-500 text-xs transition-colors">×</button>
+                  </div>
+                  {item.steps.map((step, ri) => (
+                    <StepRow key={ri} step={step} {...stepProps}
+                      onChange={next => setSteps(replaceAt(session.steps, ii, { ...item, steps: replaceAt(item.steps, ri, next) }))}
+                      onRemove={() => setSteps(replaceAt(session.steps, ii, { ...item, steps: removeAt(item.steps, ri) }))} />
+                  ))}
+                </div>
+              ) : (
+                <StepRow key={ii} step={item} {...stepProps}
+                  onChange={next => setSteps(replaceAt(session.steps, ii, next))}
+                  onRemove={() => setSteps(removeAt(session.steps, ii))} />
+              ))}
+              <div className="flex gap-4">
+                <button onClick={() => setSteps([...session.steps, createStep('steady')])} className={linkClass}>+ Step</button>
+                <button onClick={() => setSteps([...session.steps, createRepeat()])} className={linkClass}>+ Repeat</button>
+              </div>
+            </div>
+
+            <input value={session.notes || ''} placeholder="Notes" onChange={e => setSession(si, { notes: e.target.value || undefined })} className={`${inputClass} w-full`} />
+          </div>
+        );
+      })}
+
+      <button onClick={() => onChange({ ...plan, sessions: [...plan.sessions, createSession(plan)] })} className="w-full py-4 text-[9px] font-black uppercase tracking-widest border border-white/10 rounded-2xl hover:bg-white/5 transition-all">+ Session</button>
+    </div>
+  );
+};
+
+export default PlanEditor;
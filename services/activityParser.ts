@@ -0,0 +1,19 @@
+import { RunData } from '../types';
+import { parseTCX } from './tcxParser';
+import { parseFIT } from './fitParser';
+import { parseGPX } from './gpxParser';
+import { ActivityParseError } from './errors';
+
+export const SUPPORTED_EXTENSIONS = ['.tcx', '.fit', '.gpx'];
+
+/**
+ * Routes an uploaded activity file to the matching decoder by extension.
+ * Throws ActivityParseError for files that can't produce a run.
+ */
+export const parseActivityFile = async (file: File): Promise<RunData> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.fit')) return parseFIT(file);
+  if (name.endsWith('.tcx')) return parseTCX(file);
+  if (name.endsWith('.gpx')) return parseGPX(file);
+  throw new ActivityParseError('UNSUPPORTED_FORMAT', `Unsupported file type: ${file.name}`);
+};
@@ -0,0 +1,162 @@
+import { TrainingPlan, PlanSession, PlanAdjustment, AdjustmentKind, ScheduledSession, RunData, WorkoutItem } from '../types';
+import { scaleSteps } from './plans';
+import { isRepeat } from './workouts';
+import { daysBetween, toDateKey } from './planCalendar';
+
+// Sessions within this many days back count as recent
+const RECENT_DAYS = 14;
+// Proposals only touch sessions this close ahead
+const LOOKAHEAD_DAYS = 7;
+const MISSED_LIMIT = 2;
+const DRIFT_LIMIT = 8; // % decoupling
+const FATIGUE_TE = 4.5;
+const POOR_COMPLIANCE = 65;
+const STRONG_COMPLIANCE = 90;
+const STRONG_STREAK = 3;
+const SHORTEN_FACTOR = 0.8;
+const PROGRESS_FACTOR = 1.1;
+const RECOVERY_MINUTES = 25;
+
+const lowerZones = (items: WorkoutItem[], by: number): WorkoutItem[] =>
+  items.map(item => {
+    if (isRepeat(item)) return { ...item, steps: lowerZones(item.steps, by) as typeof item.steps };
+    if (item.targetType !== 'hrZone' || !item.targetZone) return item;
+    return { ...item, targetZone: Math.max(1, item.targetZone - by) };
+  });
+
+const recoverySession = (before: PlanSession, minutes: number): PlanSession => ({
+  id: `${before.id}_recovery`,
+  day: before.day,
+  title: 'Recovery Run',
+  steps: [{ kind: 'steady', durationType: 'time', durationValue: minutes * 60, targetType: 'hrZone', targetZone: 1 }],
+  notes: 'Inserted by plan adaptation',
+  targetDuration: minutes,
+  targetZone: 1
+});
+
+/**
+ * Applies the accepted adjustments for this plan, in the order they were made.
+ * Recovery runs are added here; their dates come from recoveryMoves.
+ */
+export const applyAdjustments = (plan: TrainingPlan, adjustments: PlanAdjustment[] = []): TrainingPlan => {
+  let sessions = plan.sessions;
+  adjustments
+    .filter(a => a.planId === plan.id && a.status === 'accepted')
+    .forEach(a => {
+      const target = sessions.find(s => s.id === a.sessionId);
+      if (!target) return;
+      if (a.kind === 'recovery') {
+        sessions = [...sessions, recoverySession(target, a.to.targetDuration)];
+        return;
+      }
+      sessions = sessions.map(s => {
+        if (s.id !== target.id) return s;
+        const factor = a.to.targetDuration / Math.max(1, a.from.targetDuration);
+        return {
+          ...s,
+          targetDuration: a.to.targetDuration,
+          targetZone: a.to.targetZone,
+          steps: lowerZones(scaleSteps(s.steps, factor), a.from.targetZone - a.to.targetZone)
+        };
+      });
+    });
+  return { ...plan, sessions: [...sessions].sort((a, b) => a.day - b.day) };
+};
+
+/**
+ * Schedule moves for an accepted recovery run: it takes the target
+ * session's current date (moved or not) and the session goes a day later.
+ */
+export const recoveryMoves = (adjustment: PlanAdjustment, scheduled: ScheduledSession[]): Record<string, string> => {
+  const target = scheduled.find(s => s.session.id === adjustment.sessionId);
+  if (!target) return {};
+  const { date } = target;
+  return {
+    [`${adjustment.sessionId}_recovery`]: toDateKey(date),
+    [adjustment.sessionId]: toDateKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1))
+  };
+};
+
+const mean = (vals: number[]) => (vals.length > 0 ? vals.reduce((a, b) => a + b, 0) / vals.length : 0);
+
+/**
+ * Plan Adaptation
+ * Looks at the last two weeks of the plan (compliance, cardiac drift,
+ * training effect, missed sessions) and proposes changes to the coming
+ * week, each with its reason:
+ * - missed sessions: shorten the next session
+ * - high drift or training effect: insert a recovery run before the next hard session
+ * - poor compliance on quality sessions: drop the next one a zone
+ * - a streak of strong sessions: progress the next session
+ * One change per session (a recovery run can go alongside); sessions that
+ * already had an adjustment of the same kind decided are skipped.
+ */
+export const proposeAdjustments = (
+  plan: TrainingPlan,
+  scheduled: ScheduledSession[],
+  runs: RunData[],
+  completedSessions: Record<string, string>,
+  history: PlanAdjustment[] = [],
+  today: Date = new Date()
+): PlanAdjustment[] => {
+  const recent = scheduled.filter(s => {
+    const ago = daysBetween(s.date, today);
+    return ago >= 0 && ago <= RECENT_DAYS && (ago > 0 || s.status === 'completed');
+  });
+  const done = recent
+    .map(s => ({ session: s.session, run: runs.find(r => r.id === completedSessions[s.session.id]) }))
+    .filter((d): d is { session: PlanSession; run: RunData } => !!d.run);
+  const missed = recent.filter(s => s.status === 'overdue');
+
+  const ahead = scheduled.filter(s => (s.status === 'today' || s.status === 'upcoming') && daysBetween(today, s.date) <= LOOKAHEAD_DAYS);
+  const next = ahead[0]?.session;
+  const nextHard = ahead.find(s => s.session.targetZone >= 4)?.session;
+
+  const decided = new Set(history.filter(a => a.planId === plan.id).map(a => `${a.sessionId}:${a.kind}`));
+  const proposals: PlanAdjustment[] = [];
+  const propose = (session: PlanSession | undefined, kind: AdjustmentKind, to: PlanAdjustment['to'], reason: string) => {
+    if (!session || decided.has(`${session.id}:${kind}`) || proposals.some(p => p.sessionId === session.id && (p.kind === 'recovery') === (kind === 'recovery'))) return;
+    proposals.push({
+      id: `${plan.id}_${session.id}_${kind}`,
+      planId: plan.id,
+      sessionId: session.id,
+      kind,
+      reason,
+      from: { targetDuration: session.targetDuration, targetZone: session.targetZone },
+      to,
+      status: 'proposed',
+      createdAt: today.toISOString()
+    });
+  };
+
+  if (missed.length >= MISSED_LIMIT && next) {
+    propose(next, 'shorten', { targetDuration: Math.round(next.targetDuration * SHORTEN_FACTOR), targetZone: next.targetZone },
+      `Missed ${missed.length} sessions in the last ${RECENT_DAYS} days; ease back in with a shorter run.`);
+  }
+
+  const drift = mean(done.map(d => d.run.summary.decoupling || 0));
+  const hardest = done.reduce<{ session: PlanSession; run: RunData } | null>((max, d) => (!max || d.run.summary.trainingEffect > max.run.summary.trainingEffect ? d : max), null);
+  const fatigued = drift > DRIFT_LIMIT || (hardest !== null && hardest.run.summary.trainingEffect >= FATIGUE_TE);
+  if (fatigued && nextHard) {
+    const reason = drift > DRIFT_LIMIT
+      ? `Cardiac drift averaged ${drift.toFixed(1)}% over the last ${done.length} session${done.length === 1 ? '' : 's'}.`
+      : `"${hardest!.session.title}" had a training effect of ${hardest!.run.summary.trainingEffect.toFixed(1)}.`;
+    propose(nextHard, 'recovery', { targetDuration: RECOVERY_MINUTES, targetZone: 1 }, `${reason} Add a recovery run before the next hard session.`);
+  }
+
+  const quality = done.filter(d => d.session.targetZone >= 3 && d.run.compliance);
+  const qualityScore = mean(quality.map(d => d.run.compliance!.score));
+  const nextQuality = ahead.find(s => s.session.targetZone >= 3)?.session;
+  if (quality.length > 0 && qualityScore < POOR_COMPLIANCE && nextQuality) {
+    propose(nextQuality, 'downgrade', { targetDuration: nextQuality.targetDuration, targetZone: nextQuality.targetZone - 1 },
+      `Quality sessions averaged ${Math.round(qualityScore)}% compliance; target one zone lower until they land.`);
+  }
+
+  const streak = done.slice(-STRONG_STREAK);
+  if (!fatigued && missed.length === 0 && streak.length === STRONG_STREAK && streak.every(d => (d.run.compliance?.score || 0) >= STRONG_COMPLIANCE) && next) {
+    propose(next, 'progress', { targetDuration: Math.round(next.targetDuration * PROGRESS_FACTOR), targetZone: next.targetZone },
+      `Last ${STRONG_STREAK} sessions scored ${STRONG_COMPLIANCE}%+ with ${drift.toFixed(1)}% drift; ready to progress.`);
+  }
+
+  return proposals;
+};
@@ -0,0 +1,118 @@
+import { RunData, UserSettings, TrainingPlan } from '../types';
+import { reviveRun } from './storage';
+
+const BACKUP_FORMAT = 'liquid-pro-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupData {
+  settings: UserSettings;
+  runs: RunData[];
+  customPlans: TrainingPlan[];
+}
+
+interface BackupFile extends BackupData {
+  format: string;
+  version: number;
+  exportedAt: string;
+}
+
+/**
+ * Upgrades a parsed backup one version at a time.
+ * v0: raw `{ settings, runs }` dump of the old localStorage keys.
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  0: data => ({
+    format: BACKUP_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    settings: data.settings || {},
+    runs: data.runs || [],
+    customPlans: []
+  })
+};
+
+const compress = async (text: string): Promise<Blob> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).blob();
+};
+
+const decompress = async (file: Blob): Promise<string> => {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  // Plain JSON backups are accepted too; gzip starts with 1f 8b
+  if (head[0] !== 0x1f || head[1] !== 0x8b) return file.text();
+  const stream = file.stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+};
+
+/**
+ * Bundles settings, every run with points, plan progress (in settings)
+ * and custom plans into one gzip-compressed JSON file.
+ */
+export const createBackup = async (data: BackupData): Promise<Blob> => {
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...data
+  };
+  return compress(JSON.stringify(file));
+};
+
+export const backupFileName = (date: Date = new Date()) =>
+  `liquid-pro-backup-${date.toISOString().slice(0, 10)}.json.gz`;
+
+/**
+ * Reads a backup file, checks its schema version and migrates it to the
+ * current one. Throws for files that are not backups or come from a newer app.
+ */
+export const readBackup = async (file: Blob): Promise<BackupData> => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(await decompress(file));
+  } catch {
+    throw new Error('Not a readable backup file.');
+  }
+
+  const version = parsed.format === BACKUP_FORMAT ? parsed.version : (parsed.runs && parsed.settings ? 0 : undefined);
+  if (typeof version !== 'number') throw new Error('Not a Liquid Pro backup.');
+  if (version > BACKUP_VERSION) throw new Error(`Backup version ${version} is newer than this app supports (${BACKUP_VERSION}).`);
+
+  let data = parsed;
+  for (let v = version; v < BACKUP_VERSION; v++) data = MIGRATIONS[v](data);
+
+  return {
+    settings: data.settings,
+    runs: data.runs.map(reviveRun),
+    customPlans: data.customPlans || []
+  };
+};
+
+/**
+ * Merges imported runs into the existing set by id.
+ * Returns only the runs that were not already stored.
+ */
+export const mergeRuns = (existing: RunData[], incoming: RunData[]): RunData[] => {
+  const known = new Set(existing.map(r => r.id));
+  return incoming.filter(r => {
+    if (known.has(r.id)) return false;
+    known.add(r.id);
+    return true;
+  });
+};
+
+/**
+ * Custom plans from a backup are added unless a plan with that id exists.
+ */
+export const mergePlans = (existing: TrainingPlan[], incoming: TrainingPlan[]): TrainingPlan[] => {
+  const known = new Set(existing.map(p => p.id));
+  return [...existing, ...incoming.filter(p => !known.has(p.id))];
+};
+
+/**
+ * Backup settings win, except plan progress which is unioned.
+ */
+export const mergeSettings = (current: UserSettings, incoming: Partial<UserSettings>): UserSettings => ({
+  ...current,
+  ...incoming,
+  completedSessions: { ...(incoming.completedSessions || {}), ...current.completedSessions }
+});
@@ -0,0 +1,113 @@
+import { RunData, UserSettings, ImportProgress } from '../types';
+import type { ImportWorkerMessage } from './importWorker';
+
+// Two recordings of the same run rarely agree exactly (watch vs phone export)
+const DUPLICATE_START_TOLERANCE_S = 60;
+const DUPLICATE_DISTANCE_TOLERANCE = 0.02;
+const DUPLICATE_DISTANCE_MIN_M = 50;
+
+export type ParsedFile =
+  | { fileName: string; run: RunData }
+  | { fileName: string; reason: string };
+
+/**
+ * Parses and analyzes files off the main thread. ZIP archives are expanded
+ * in the worker; every contained file gets its own entry.
+ */
+export const parseFilesInWorker = (
+  files: File[],
+  settings: UserSettings,
+  onProgress: (progress: ImportProgress) => void
+): Promise<ParsedFile[]> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./importWorker.ts', import.meta.url), { type: 'module' });
+    const results: ParsedFile[] = [];
+
+    worker.onmessage = (e: MessageEvent<ImportWorkerMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') onProgress({ done: msg.done, total: msg.total, fileName: msg.fileName });
+      else if (msg.type === 'parsed') results.push({ fileName: msg.fileName, run: msg.run });
+      else if (msg.type === 'failed') results.push({ fileName: msg.fileName, reason: msg.reason });
+      else if (msg.type === 'done') {
+        worker.terminate();
+        resolve(results);
+      }
+    };
+    worker.onerror = e => {
+      worker.terminate();
+      reject(new Error(e.message || 'Import worker crashed.'));
+    };
+
+    worker.postMessage({ files, settings });
+  });
+
+/**
+ * Same activity if it started within a minute and covered about the same distance.
+ */
+export const isDuplicateRun = (a: RunData, b: RunData): boolean => {
+  const startDiff = Math.abs(a.startTime.getTime() - b.startTime.getTime()) / 1000;
+  if (startDiff > DUPLICATE_START_TOLERANCE_S) return false;
+  const distA = a.summary.totalDistance;
+  const distB = b.summary.totalDistance;
+  const tolerance = Math.max(DUPLICATE_DISTANCE_MIN_M, Math.max(distA, distB) * DUPLICATE_DISTANCE_TOLERANCE);
+  return Math.abs(distA - distB) <= tolerance;
+};
+
+export const findDuplicate = (run: RunData, runs: RunData[]): RunData | undefined =>
+  runs.find(r => isDuplicateRun(run, r));
+
+/**
+ * Ids come from the start time, which different runs can share. A taken
+ * id gets the distance, then a counter, appended.
+ */
+export const withUniqueId = (run: RunData, runs: RunData[]): RunData => {
+  const taken = new Set(runs.map(r => r.id));
+  if (!taken.has(run.id)) return run;
+  const base = `${run.id}_${Math.round(run.summary.totalDistance)}`;
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}_${n}`;
+  return { ...run, id };
+};
+
+const readDirectory = (dir: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = dir.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns batches; keep reading until it comes back empty
+  return new Promise((resolve, reject) => {
+    const next = () => reader.readEntries(batch => {
+      if (batch.length === 0) resolve(entries);
+      else {
+        entries.push(...batch);
+        next();
+      }
+    }, reject);
+    next();
+  });
+};
+
+const collectEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(f => resolve([f]), reject));
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    return (await Promise.all(children.map(collectEntry))).flat();
+  }
+  return [];
+};
+
+/**
+ * Files from a drag-and-drop, walking into dropped folders.
+ * Hidden files (.DS_Store and friends) are ignored.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  const files = entries.length > 0
+    ? (await Promise.all(entries.map(collectEntry))).flat()
+    : Array.from(dataTransfer.files);
+
+  return files.filter(f => !f.name.startsWith('.'));
+};
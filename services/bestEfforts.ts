@@ -0,0 +1,140 @@
+import { RunData, BestEffort, PaceCurvePoint, PersonalRecord } from '../types';
+
+export const BEST_EFFORT_DISTANCES: { key: string; label: string; meters: number }[] = [
+  { key: '400m', label: '400m', meters: 400 },
+  { key: '1k', label: '1K', meters: 1000 },
+  { key: 'mile', label: '1 Mile', meters: 1609.34 },
+  { key: '5k', label: '5K', meters: 5000 },
+  { key: '10k', label: '10K', meters: 10000 },
+  { key: 'half', label: 'Half Marathon', meters: 21097.5 },
+  { key: 'marathon', label: 'Marathon', meters: 42195 },
+];
+
+// Durations sampled for the mean-max pace curve
+const CURVE_DURATIONS = [15, 30, 60, 120, 300, 600, 1200, 1800, 2400, 3600, 5400, 7200, 10800];
+
+/**
+ * Fastest window of at least `seconds` in a run.
+ * Returns its average speed (m/s) and average HR.
+ */
+export const findBestSustainedEffort = (run: RunData, seconds: number): { speed: number; hr: number } | null => {
+  const pts = run.points;
+  let bestSpeed = -1;
+  let bestStart = 0;
+  let bestEnd = 0;
+  let j = 0;
+
+  for (let i = 1; i < pts.length; i++) {
+    const t = pts[i].time.getTime();
+    // Move j forward as long as the window stays at least `seconds` long
+    while (j + 1 < i && (t - pts[j + 1].time.getTime()) / 1000 >= seconds) j++;
+    const duration = (t - pts[j].time.getTime()) / 1000;
+    if (duration < seconds) continue;
+
+    const speed = ((pts[i].distance || 0) - (pts[j].distance || 0)) / duration;
+    if (speed > bestSpeed) {
+      bestSpeed = speed;
+      bestStart = j;
+      bestEnd = i;
+    }
+  }
+
+  if (bestSpeed < 0) return null;
+  const hrs = pts.slice(bestStart, bestEnd + 1).filter(p => p.hr !== undefined);
+  const hr = hrs.length > 0 ? hrs.reduce((a, p) => a + p.hr!, 0) / hrs.length : 0;
+  return { speed: bestSpeed, hr };
+};
+
+/**
+ * Fastest rolling window covering `meters` within a run.
+ * Time is scaled to the exact distance since samples rarely land on it.
+ */
+export const findBestEffort = (run: RunData, key: string, meters: number): BestEffort | null => {
+  const pts = run.points;
+  let best: BestEffort | null = null;
+  let j = 0;
+
+  for (let i = 1; i < pts.length; i++) {
+    const d = pts[i].distance || 0;
+    // Shrink from the left while the window still covers the distance
+    while (j + 1 < i && d - (pts[j + 1].distance || 0) >= meters) j++;
+    const covered = d - (pts[j].distance || 0);
+    if (covered < meters) continue;
+
+    const time = ((pts[i].time.getTime() - pts[j].time.getTime()) / 1000) * (meters / covered);
+    if (time > 0 && (!best || time < best.time)) {
+      best = { key, distance: meters, time, startIdx: j, endIdx: i };
+    }
+  }
+
+  return best;
+};
+
+export const calculateBestEfforts = (run: RunData): BestEffort[] =>
+  BEST_EFFORT_DISTANCES
+    .filter(d => d.meters <= run.summary.totalDistance)
+    .map(d => findBestEffort(run, d.key, d.meters))
+    .filter((e): e is BestEffort => e !== null);
+
+/**
+ * Mean-Max Pace Curve
+ * Best average pace the run sustained for each sampled duration.
+ */
+export const calculatePaceCurve = (run: RunData): PaceCurvePoint[] =>
+  CURVE_DURATIONS
+    .filter(seconds => seconds <= run.summary.elapsedTime)
+    .map((seconds): PaceCurvePoint | null => {
+      const effort = findBestSustainedEffort(run, seconds);
+      return effort && effort.speed > 0 ? { seconds, pace: 1000 / effort.speed, hr: effort.hr || undefined } : null;
+    })
+    .filter((p): p is PaceCurvePoint => p !== null);
+
+/**
+ * Best efforts are cached on the run at import; older runs are computed on demand.
+ */
+const getRunEfforts = (run: RunData): BestEffort[] => run.bestEfforts ?? calculateBestEfforts(run);
+
+/**
+ * PR History
+ * Walks runs chronologically and records every effort that beat the
+ * standing record for its distance. The last entry per distance is the current PR.
+ */
+export const buildPRHistory = (runs: RunData[]): Record<string, PersonalRecord[]> => {
+  const history: Record<string, PersonalRecord[]> = {};
+  BEST_EFFORT_DISTANCES.forEach(d => { history[d.key] = []; });
+
+  [...runs]
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+    .forEach(run => {
+      getRunEfforts(run).forEach(effort => {
+        const list = history[effort.key];
+        const meta = BEST_EFFORT_DISTANCES.find(d => d.key === effort.key);
+        if (!list || !meta) return;
+        const current = list[list.length - 1];
+        if (!current || effort.time < current.time) {
+          list.push({ key: effort.key, label: meta.label, distance: effort.distance, time: effort.time, runId: run.id, date: run.startTime });
+        }
+      });
+    });
+
+  return history;
+};
+
+/**
+ * Records a run set at the time it was done.
+ */
+export const getRunPRs = (history: Record<string, PersonalRecord[]>, runId: string): PersonalRecord[] =>
+  Object.values(history).flat().filter(pr => pr.runId === runId);
+
+/**
+ * Best pace across all runs for each curve duration, with the source run.
+ */
+export const buildPaceCurve = (runs: RunData[]): (PaceCurvePoint & { runId: string })[] => {
+  const best: Record<number, PaceCurvePoint & { runId: string }> = {};
+  runs.forEach(run => {
+    (run.paceCurve ?? calculatePaceCurve(run)).forEach(p => {
+      if (!best[p.seconds] || p.pace < best[p.seconds].pace) best[p.seconds] = { ...p, runId: run.id };
+    });
+  });
+  return Object.values(best).sort((a, b) => a.seconds - b.seconds);
+};
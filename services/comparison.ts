@@ -0,0 +1,90 @@
+import { TrackPoint, ComparisonAxis, TimeDeltaPoint, GainLossSegment } from '../types';
+
+// Pace is measured over this trailing window so the overlays stay readable
+const PACE_WINDOW = 10; // seconds
+const MAX_CHART_PACE = 900;
+
+const seconds = (a: TrackPoint, b: TrackPoint) => (b.time.getTime() - a.time.getTime()) / 1000;
+
+/**
+ * One run's stream on the shared comparison axis: meters from the start
+ * or seconds since the start.
+ */
+export const buildComparisonSeries = (
+  points: TrackPoint[],
+  axis: ComparisonAxis,
+  value: 'pace' | 'hr' | 'altitude'
+): { x: number; y: number }[] => {
+  if (points.length === 0) return [];
+  const start = points[0];
+  const out: { x: number; y: number }[] = [];
+  let j = 0;
+
+  points.forEach((p, i) => {
+    const x = axis === 'distance' ? p.distance || 0 : seconds(start, p);
+    if (value === 'pace') {
+      while (j < i && seconds(points[j], p) > PACE_WINDOW) j++;
+      const dist = (p.distance || 0) - (points[j].distance || 0);
+      const time = seconds(points[j], p);
+      if (dist > 0 && time > 0) out.push({ x, y: Math.min(time / (dist / 1000), MAX_CHART_PACE) });
+    } else {
+      const y = value === 'hr' ? p.hr : p.altitude;
+      if (y !== undefined) out.push({ x, y });
+    }
+  });
+  return out;
+};
+
+/**
+ * Elapsed seconds when the run reached a distance, interpolated
+ * between the surrounding points.
+ */
+export const timeAtDistance = (points: TrackPoint[], distance: number): number | undefined => {
+  if (points.length === 0 || distance > (points[points.length - 1].distance || 0)) return undefined;
+  let lo = 0;
+  let hi = points.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if ((points[mid].distance || 0) < distance) lo = mid + 1;
+    else hi = mid;
+  }
+  if (lo === 0) return 0;
+  const a = points[lo - 1];
+  const b = points[lo];
+  const span = (b.distance || 0) - (a.distance || 0);
+  const f = span > 0 ? (distance - (a.distance || 0)) / span : 0;
+  return seconds(points[0], a) + seconds(a, b) * f;
+};
+
+/**
+ * Running time difference of a run against the baseline at every `step`
+ * meters over the distance both covered.
+ */
+export const calculateTimeDelta = (baseline: TrackPoint[], other: TrackPoint[], step = 50): TimeDeltaPoint[] => {
+  const common = Math.min(baseline[baseline.length - 1]?.distance || 0, other[other.length - 1]?.distance || 0);
+  const out: TimeDeltaPoint[] = [];
+  for (let d = 0; d <= common; d += step) {
+    const tBase = timeAtDistance(baseline, d);
+    const tOther = timeAtDistance(other, d);
+    if (tBase !== undefined && tOther !== undefined) out.push({ distance: d, delta: tOther - tBase });
+  }
+  return out;
+};
+
+/**
+ * Where the time was won or lost: the change in the gap over each
+ * `length` meter stretch of the course.
+ */
+export const findGainLossSegments = (delta: TimeDeltaPoint[], length = 500): GainLossSegment[] => {
+  if (delta.length < 2) return [];
+  const segments: GainLossSegment[] = [];
+  let start = delta[0];
+  delta.forEach((p, i) => {
+    const last = i === delta.length - 1;
+    if (p.distance - start.distance >= length || (last && p.distance > start.distance)) {
+      segments.push({ from: start.distance, to: p.distance, change: p.delta - start.delta });
+      start = p;
+    }
+  });
+  return segments;
+};
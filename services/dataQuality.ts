@@ -0,0 +1,184 @@
+import { TrackPoint, DataQualityIssue, DataQualityIssueType, DataQualityReport } from '../types';
+import { haversineDistance } from './geo';
+import { ActivityParseError } from './errors';
+
+// Faster than any runner: anything above is a GPS or distance artifact
+const MAX_RUNNING_SPEED = 12; // m/s
+const MIN_VALID_HR = 30;
+const MAX_VALID_HR = 230;
+// HR jumps faster than this (bpm per second) are strap artifacts
+const MAX_HR_RATE = 10;
+// HR dropouts up to this long are interpolated, longer ones are left empty
+const MAX_HR_FILL_SECONDS = 15;
+const TIMESTAMP_GAP_SECONDS = 60;
+
+// Penalty per affected fraction of the track, and flat penalty for missing streams
+const ISSUE_WEIGHTS: Record<DataQualityIssueType, number> = {
+  invalid_time: 50,
+  time_order: 50,
+  timestamp_gap: 0,
+  gps_spike: 100,
+  distance_regression: 100,
+  distance_jump: 100,
+  hr_artifact: 80,
+  hr_dropout: 60,
+  no_hr: 0,
+  no_gps: 0
+};
+const FLAT_PENALTIES: Partial<Record<DataQualityIssueType, number>> = {
+  timestamp_gap: 2,
+  distance_jump: 5,
+  no_hr: 15,
+  no_gps: 5
+};
+
+const seconds = (a: TrackPoint, b: TrackPoint) => (b.time.getTime() - a.time.getTime()) / 1000;
+
+const MESSAGES: Record<DataQualityIssueType, (n: number) => string> = {
+  invalid_time: n => `${n} point(s) with unreadable timestamps removed`,
+  time_order: n => `${n} point(s) out of time order removed`,
+  timestamp_gap: n => `${n} recording gap(s) over ${TIMESTAMP_GAP_SECONDS}s treated as pauses`,
+  gps_spike: n => `${n} GPS spike(s) removed`,
+  distance_regression: n => `${n} backwards distance sample(s) clamped`,
+  distance_jump: n => `${n} distance jump(s) removed`,
+  hr_artifact: n => `${n} implausible HR sample(s) removed`,
+  hr_dropout: n => `${n} HR dropout(s)`,
+  no_hr: () => 'No heart rate recorded',
+  no_gps: () => 'No GPS coordinates recorded'
+};
+
+/**
+ * Validation & Cleaning
+ * Repairs the common recording faults in place of a raw track and reports
+ * what it found. Throws ActivityParseError when nothing usable remains.
+ */
+export const cleanTrack = (raw: TrackPoint[]): { points: TrackPoint[]; report: DataQualityReport } => {
+  if (raw.length === 0) throw new ActivityParseError('NO_TRACKPOINTS', 'File contains no trackpoints.');
+
+  const counts: Partial<Record<DataQualityIssueType, number>> = {};
+  const repaired: Partial<Record<DataQualityIssueType, boolean>> = {};
+  const flag = (type: DataQualityIssueType, fixed: boolean, n = 1) => {
+    counts[type] = (counts[type] || 0) + n;
+    repaired[type] = fixed;
+  };
+
+  // 1. Timestamps: drop unreadable ones and anything not moving forward
+  const timed = raw.filter(p => !isNaN(p.time.getTime()));
+  if (timed.length === 0) throw new ActivityParseError('INVALID_TIMESTAMPS', 'No trackpoint has a valid timestamp.');
+  if (timed.length < raw.length) flag('invalid_time', true, raw.length - timed.length);
+
+  const points: TrackPoint[] = [];
+  timed.forEach(p => {
+    const prev = points[points.length - 1];
+    if (prev && p.time.getTime() <= prev.time.getTime()) {
+      flag('time_order', true);
+      return;
+    }
+    if (prev && seconds(prev, p) > TIMESTAMP_GAP_SECONDS) flag('timestamp_gap', false);
+    points.push({ ...p });
+  });
+  if (points.length < 2) throw new ActivityParseError('TOO_SHORT', 'Not enough valid trackpoints to analyze.');
+
+  // 2. GPS spikes: fixes implying impossible speed from the last good fix
+  let lastFix: TrackPoint | null = null;
+  points.forEach(p => {
+    if (p.lat === undefined || p.lng === undefined) return;
+    if (lastFix) {
+      const dt = seconds(lastFix, p);
+      const d = haversineDistance(lastFix.lat!, lastFix.lng!, p.lat, p.lng);
+      if (dt > 0 && d / dt > MAX_RUNNING_SPEED) {
+        p.lat = undefined;
+        p.lng = undefined;
+        flag('gps_spike', true);
+        return;
+      }
+    }
+    lastFix = p;
+  });
+
+  // 3. Device distance: clamp regressions, cut out jumps
+  let offset = 0;
+  let lastDist: number | null = null;
+  let lastDistPoint: TrackPoint | null = null;
+  points.forEach(p => {
+    if (p.distance === undefined) return;
+    let d = p.distance - offset;
+    if (lastDist !== null && lastDistPoint) {
+      const delta = d - lastDist;
+      const dt = seconds(lastDistPoint, p);
+      if (delta < 0) {
+        flag('distance_regression', true);
+        d = lastDist;
+      } else if (dt > 0 && delta / dt > MAX_RUNNING_SPEED) {
+        flag('distance_jump', true);
+        offset += delta;
+        d = lastDist;
+      }
+    }
+    p.distance = d;
+    lastDist = d;
+    lastDistPoint = p;
+  });
+
+  // 4. HR: remove out-of-range values and spikes, then fill short dropouts
+  let lastHR: TrackPoint | null = null;
+  points.forEach(p => {
+    if (p.hr === undefined) return;
+    if (p.hr < MIN_VALID_HR || p.hr > MAX_VALID_HR) {
+      p.hr = undefined;
+      flag('hr_artifact', true);
+      return;
+    }
+    if (lastHR) {
+      const dt = Math.max(1, seconds(lastHR, p));
+      if (Math.abs(p.hr - lastHR.hr!) / dt > MAX_HR_RATE) {
+        p.hr = undefined;
+        flag('hr_artifact', true);
+        return;
+      }
+    }
+    lastHR = p;
+  });
+
+  const hrIdx = points.map((p, i) => (p.hr !== undefined ? i : -1)).filter(i => i !== -1);
+  for (let k = 1; k < hrIdx.length; k++) {
+    const a = hrIdx[k - 1];
+    const b = hrIdx[k];
+    if (b - a <= 1) continue;
+    const gap = seconds(points[a], points[b]);
+    // Missing HR inside a recording pause is not a dropout
+    if (gap > TIMESTAMP_GAP_SECONDS) continue;
+    if (gap <= MAX_HR_FILL_SECONDS) {
+      const hrA = points[a].hr!;
+      const hrB = points[b].hr!;
+      for (let i = a + 1; i < b; i++) {
+        points[i].hr = Math.round(hrA + (hrB - hrA) * (seconds(points[a], points[i]) / gap));
+      }
+      flag('hr_dropout', true);
+    } else {
+      flag('hr_dropout', false);
+    }
+  }
+
+  if (hrIdx.length === 0) flag('no_hr', false);
+  if (!points.some(p => p.lat !== undefined && p.lng !== undefined)) flag('no_gps', false);
+
+  const issues: DataQualityIssue[] = (Object.keys(counts) as DataQualityIssueType[]).map(type => ({
+    type,
+    count: counts[type]!,
+    repaired: !!repaired[type],
+    message: MESSAGES[type](counts[type]!)
+  }));
+
+  const penalty = issues.reduce((sum, issue) =>
+    sum + ISSUE_WEIGHTS[issue.type] * Math.min(1, issue.count / points.length) + (FLAT_PENALTIES[issue.type] || 0) * Math.min(issue.count, 3), 0);
+
+  return {
+    points,
+    report: {
+      score: Math.max(0, Math.round(100 - penalty)),
+      pointCount: points.length,
+      issues
+    }
+  };
+};
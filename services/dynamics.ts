@@ -0,0 +1,103 @@
+import { RunData, TrackPoint } from '../types';
+
+// Rolling window of the normalized power algorithm
+const NORMALIZED_WINDOW = 30; // seconds
+// Below this a point is standing rather than running
+const MIN_RUNNING_SPEED = 0.5; // m/s
+
+type DynamicsSummary = Pick<RunData['summary'],
+  'avgCadence' | 'avgPower' | 'normalizedPower' | 'avgStrideLength' | 'avgVerticalOscillation' | 'avgGroundContactTime' | 'variabilityIndex'>;
+
+const seconds = (a: TrackPoint, b: TrackPoint) => (b.time.getTime() - a.time.getTime()) / 1000;
+
+const pointSpeed = (points: TrackPoint[], i: number): number | undefined => {
+  if (points[i].speed !== undefined) return points[i].speed;
+  if (i === 0) return undefined;
+  const dt = seconds(points[i - 1], points[i]);
+  return dt > 0 ? ((points[i].distance || 0) - (points[i - 1].distance || 0)) / dt : undefined;
+};
+
+/**
+ * Fills stride length (meters per step) from speed and cadence where the
+ * device didn't record it.
+ */
+export const deriveStrideLength = (points: TrackPoint[]): void => {
+  points.forEach((p, i) => {
+    if (p.strideLength !== undefined || !p.cadence) return;
+    const speed = pointSpeed(points, i);
+    if (speed !== undefined && speed > MIN_RUNNING_SPEED) p.strideLength = Math.round((speed * 60 / p.cadence) * 100) / 100;
+  });
+};
+
+/**
+ * Normalized value of a stream (Coggan): 30 s rolling average, raised to
+ * the 4th power, time-weighted mean, 4th root. Weights hard efforts above
+ * a plain average, so normalized / average measures variability.
+ */
+export const calculateNormalized = (points: TrackPoint[], value: (p: TrackPoint, i: number) => number | undefined): number => {
+  let j = 0;
+  let windowSum = 0;
+  let weighted = 0;
+  let totalTime = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const dt = seconds(points[i - 1], points[i]);
+    // Pauses break the rolling window
+    if (dt <= 0 || dt > 15) {
+      j = i;
+      windowSum = 0;
+      continue;
+    }
+    windowSum += (value(points[i], i) || 0) * dt;
+    while (j < i && seconds(points[j], points[i]) > NORMALIZED_WINDOW) {
+      windowSum -= (value(points[j + 1], j + 1) || 0) * seconds(points[j], points[j + 1]);
+      j++;
+    }
+    const span = seconds(points[j], points[i]);
+    if (span <= 0) continue;
+    weighted += Math.pow(windowSum / span, 4) * dt;
+    totalTime += dt;
+  }
+
+  return totalTime > 0 ? Math.pow(weighted / totalTime, 0.25) : 0;
+};
+
+const movingAverage = (points: TrackPoint[], value: (p: TrackPoint, i: number) => number | undefined): number | undefined => {
+  const values = points
+    .map((p, i) => ((pointSpeed(points, i) || 0) > MIN_RUNNING_SPEED ? value(p, i) : undefined))
+    .filter((v): v is number => v !== undefined && v > 0);
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+};
+
+/**
+ * Running Dynamics
+ * Averages cadence, power, stride length, vertical oscillation and ground
+ * contact time over moving time. Variability index is normalized / average
+ * power, or the same ratio on speed for runs without a power meter.
+ */
+export const calculateRunningDynamics = (points: TrackPoint[]): DynamicsSummary => {
+  const avgPower = movingAverage(points, p => p.power);
+  const normalizedPower = avgPower ? calculateNormalized(points, p => p.power) : undefined;
+
+  let variabilityIndex = 1;
+  if (avgPower && normalizedPower) {
+    variabilityIndex = normalizedPower / avgPower;
+  } else {
+    const speeds = points.map((_, i) => pointSpeed(points, i));
+    const avgSpeed = movingAverage(points, (_, i) => speeds[i]);
+    const normalizedSpeed = calculateNormalized(points, (_, i) => speeds[i]);
+    if (avgSpeed && normalizedSpeed) variabilityIndex = normalizedSpeed / avgSpeed;
+  }
+
+  const round = (v: number | undefined, digits = 0) => (v === undefined ? undefined : Math.round(v * 10 ** digits) / 10 ** digits);
+
+  return {
+    avgCadence: round(movingAverage(points, p => p.cadence)),
+    avgPower: round(avgPower),
+    normalizedPower: round(normalizedPower),
+    avgStrideLength: round(movingAverage(points, p => p.strideLength), 2),
+    avgVerticalOscillation: round(movingAverage(points, p => p.verticalOscillation), 1),
+    avgGroundContactTime: round(movingAverage(points, p => p.groundContactTime)),
+    variabilityIndex: Math.round(variabilityIndex * 100) / 100
+  };
+};
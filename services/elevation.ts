@@ -0,0 +1,151 @@
+import { RunData, TrackPoint, ElevationSettings, ElevationSource, DemTile } from '../types';
+
+export const DEFAULT_ELEVATION_SETTINGS: ElevationSettings = {
+  smoothingSeconds: 30,
+  threshold: 3,
+  useDEM: false
+};
+
+// SRTM marks missing samples with this value
+const DEM_VOID = -32768;
+// A DEM is only used when it covers most of the track
+const MIN_DEM_COVERAGE = 0.8;
+
+const seconds = (a: TrackPoint, b: TrackPoint) => (b.time.getTime() - a.time.getTime()) / 1000;
+
+/**
+ * Reads an SRTM `.hgt` tile. The file name gives the south-west corner
+ * (e.g. N46E007.hgt); the body is big-endian int16 heights, north to south.
+ */
+export const parseHGT = (fileName: string, buffer: ArrayBuffer): DemTile => {
+  const match = fileName.match(/([NS])(\d{2})([EW])(\d{3})/i);
+  if (!match) throw new Error(`${fileName}: expected an SRTM tile name like N46E007.hgt.`);
+
+  const size = Math.round(Math.sqrt(buffer.byteLength / 2));
+  if ((size !== 1201 && size !== 3601) || size * size * 2 !== buffer.byteLength) {
+    throw new Error(`${fileName}: not an SRTM1 or SRTM3 tile.`);
+  }
+
+  const view = new DataView(buffer);
+  const data = new Int16Array(size * size);
+  for (let i = 0; i < data.length; i++) data[i] = view.getInt16(i * 2, false);
+
+  const south = parseInt(match[2]) * (match[1].toUpperCase() === 'S' ? -1 : 1);
+  const west = parseInt(match[4]) * (match[3].toUpperCase() === 'W' ? -1 : 1);
+  return { name: `${match[1]}${match[2]}${match[3]}${match[4]}`.toUpperCase(), south, west, size, data };
+};
+
+/**
+ * Terrain height at a coordinate, bilinearly interpolated.
+ * Undefined outside the loaded tiles or over voids.
+ */
+export const sampleDEM = (tiles: DemTile[], lat: number, lng: number): number | undefined => {
+  const tile = tiles.find(t => t.south === Math.floor(lat) && t.west === Math.floor(lng));
+  if (!tile) return undefined;
+
+  const n = tile.size - 1;
+  const row = (tile.south + 1 - lat) * n;
+  const col = (lng - tile.west) * n;
+  const r0 = Math.min(Math.floor(row), n - 1);
+  const c0 = Math.min(Math.floor(col), n - 1);
+  const fr = row - r0;
+  const fc = col - c0;
+
+  const at = (r: number, c: number) => tile.data[r * tile.size + c];
+  const corners = [at(r0, c0), at(r0, c0 + 1), at(r0 + 1, c0), at(r0 + 1, c0 + 1)];
+  if (corners.includes(DEM_VOID)) return undefined;
+
+  const top = corners[0] + (corners[1] - corners[0]) * fc;
+  const bottom = corners[2] + (corners[3] - corners[2]) * fc;
+  return top + (bottom - top) * fr;
+};
+
+/**
+ * Centred time-window moving average over the points that have a value.
+ */
+export const smoothAltitude = (points: TrackPoint[], values: (number | undefined)[], windowSeconds: number): (number | undefined)[] => {
+  if (windowSeconds <= 0) return values;
+  const idx = values.map((v, i) => (v !== undefined ? i : -1)).filter(i => i !== -1);
+  const out: (number | undefined)[] = values.map(() => undefined);
+  const half = windowSeconds / 2;
+
+  let j = 0;
+  let k = 0;
+  let sum = 0;
+  idx.forEach(i => {
+    while (k < idx.length && seconds(points[i], points[idx[k]]) <= half) sum += values[idx[k++]]!;
+    while (seconds(points[idx[j]], points[i]) > half) sum -= values[idx[j++]]!;
+    out[i] = sum / (k - j);
+  });
+  return out;
+};
+
+/**
+ * Threshold (hysteresis) climb counting: altitude must move at least
+ * `threshold` meters from the last reference before it adds up.
+ */
+export const calculateElevationGain = (values: (number | undefined)[], threshold: number): { ascent: number; descent: number } => {
+  let ascent = 0;
+  let descent = 0;
+  let ref: number | null = null;
+  values.forEach(v => {
+    if (v === undefined) return;
+    if (ref === null) {
+      ref = v;
+      return;
+    }
+    const diff = v - ref;
+    if (diff >= threshold) {
+      ascent += diff;
+      ref = v;
+    } else if (-diff >= threshold) {
+      descent -= diff;
+      ref = v;
+    }
+  });
+  return { ascent, descent };
+};
+
+/**
+ * Elevation Correction
+ * Replaces each point's altitude with the corrected value (DEM terrain
+ * height and/or smoothing) and recounts ascent, descent and VAM. The
+ * recorded altitude is kept as `rawAltitude`, so this can be re-run with
+ * other settings.
+ */
+export const processElevation = (run: RunData, config: ElevationSettings = DEFAULT_ELEVATION_SETTINGS, tiles: DemTile[] = []): void => {
+  const points = run.points;
+  const raw = points.map(p => p.rawAltitude ?? p.altitude);
+  if (!raw.some(v => v !== undefined) && !(config.useDEM && tiles.length > 0)) return;
+
+  let source: ElevationSource = 'device';
+  let base = raw;
+
+  if (config.useDEM && tiles.length > 0) {
+    const dem = points.map(p => (p.lat !== undefined && p.lng !== undefined ? sampleDEM(tiles, p.lat, p.lng) : undefined));
+    const covered = dem.filter(v => v !== undefined).length;
+    if (covered > 0 && covered >= points.length * MIN_DEM_COVERAGE) {
+      base = dem;
+      source = 'dem';
+    }
+  }
+
+  const corrected = smoothAltitude(points, base, config.smoothingSeconds);
+  if (source === 'device' && config.smoothingSeconds > 0) source = 'smoothed';
+
+  points.forEach((p, i) => {
+    if (raw[i] !== undefined) p.rawAltitude = raw[i];
+    p.altitude = corrected[i] !== undefined ? Math.round(corrected[i]! * 10) / 10 : undefined;
+  });
+
+  const rawGain = calculateElevationGain(raw, 0);
+  const gain = calculateElevationGain(corrected, config.threshold);
+  const movingTime = run.summary.movingTime;
+
+  run.summary.rawAscent = rawGain.ascent;
+  run.summary.rawDescent = rawGain.descent;
+  run.summary.totalAscent = gain.ascent;
+  run.summary.totalDescent = gain.descent;
+  run.summary.vam = movingTime > 0 ? (gain.ascent / movingTime) * 3600 : 0;
+  run.summary.elevationSource = source;
+};
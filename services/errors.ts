@@ -0,0 +1,20 @@
+export type ActivityParseErrorCode =
+  | 'UNSUPPORTED_FORMAT'
+  | 'MALFORMED_FILE'
+  | 'NO_TRACKPOINTS'
+  | 'INVALID_TIMESTAMPS'
+  | 'TOO_SHORT';
+
+/**
+ * Raised when a file can't produce a usable run.
+ * The message is shown to the user as the reason in the import report.
+ */
+export class ActivityParseError extends Error {
+  code: ActivityParseErrorCode;
+
+  constructor(code: ActivityParseErrorCode, message: string) {
+    super(message);
+    this.name = 'ActivityParseError';
+    this.code = code;
+  }
+}
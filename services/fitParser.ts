@@ -0,0 +1,268 @@
+import { RunData, TrackPoint, Lap } from '../types';
+import { buildRunData } from './runBuilder';
+import { ActivityParseError } from './errors';
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600;
+
+// Global message numbers we care about
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+
+// Semicircles -> degrees
+const SEMICIRCLE_TO_DEG = 180 / Math.pow(2, 31);
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  devDataSize: number;
+}
+
+type FitMessage = Record<number, number | string | undefined>;
+
+/**
+ * Reads a single base-type value. Returns undefined for the FIT "invalid"
+ * sentinel of that type, or when the field is an array we don't decode.
+ */
+const readField = (view: DataView, offset: number, field: FieldDefinition, le: boolean): number | string | undefined => {
+  const { size, baseType } = field;
+
+  if ((baseType & 0x1F) === 0x07) {
+    let str = '';
+    for (let i = 0; i < size; i++) {
+      const c = view.getUint8(offset + i);
+      if (c === 0) break;
+      str += String.fromCharCode(c);
+    }
+    return str;
+  }
+
+  switch (baseType) {
+    case 0x00: // enum
+    case 0x02: // uint8
+    case 0x0A: // uint8z
+    case 0x0D: { // byte
+      if (size !== 1) return undefined;
+      const v = view.getUint8(offset);
+      return v === 0xFF || (baseType === 0x0A && v === 0) ? undefined : v;
+    }
+    case 0x01: { // sint8
+      if (size !== 1) return undefined;
+      const v = view.getInt8(offset);
+      return v === 0x7F ? undefined : v;
+    }
+    case 0x83: { // sint16
+      if (size !== 2) return undefined;
+      const v = view.getInt16(offset, le);
+      return v === 0x7FFF ? undefined : v;
+    }
+    case 0x84: // uint16
+    case 0x8B: { // uint16z
+      if (size !== 2) return undefined;
+      const v = view.getUint16(offset, le);
+      return v === 0xFFFF || (baseType === 0x8B && v === 0) ? undefined : v;
+    }
+    case 0x85: { // sint32
+      if (size !== 4) return undefined;
+      const v = view.getInt32(offset, le);
+      return v === 0x7FFFFFFF ? undefined : v;
+    }
+    case 0x86: // uint32
+    case 0x8C: { // uint32z
+      if (size !== 4) return undefined;
+      const v = view.getUint32(offset, le);
+      return v === 0xFFFFFFFF || (baseType === 0x8C && v === 0) ? undefined : v;
+    }
+    case 0x88: { // float32
+      if (size !== 4) return undefined;
+      const v = view.getFloat32(offset, le);
+      return isFinite(v) ? v : undefined;
+    }
+    case 0x89: { // float64
+      if (size !== 8) return undefined;
+      const v = view.getFloat64(offset, le);
+      return isFinite(v) ? v : undefined;
+    }
+    default:
+      // 64-bit integers and unknown types are not needed for running data
+      return undefined;
+  }
+};
+
+/**
+ * Walks the FIT record stream and returns every decoded data message
+ * grouped by global message number.
+ */
+const decodeMessages = (buffer: ArrayBuffer): Record<number, FitMessage[]> => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12) throw new ActivityParseError('MALFORMED_FILE', 'File too small to be a FIT file.');
+
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const signature = String.fromCharCode(view.getUint8(8), view.getUint8(9), view.getUint8(10), view.getUint8(11));
+  if (signature !== '.FIT') throw new ActivityParseError('MALFORMED_FILE', 'Missing .FIT signature.');
+
+  const end = Math.min(headerSize + dataSize, buffer.byteLength);
+  const definitions: Record<number, MessageDefinition> = {};
+  const messages: Record<number, FitMessage[]> = {};
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  while (offset < end) {
+    const header = view.getUint8(offset++);
+
+    // Compressed timestamp header: 2-bit local type + 5-bit time offset
+    if (header & 0x80) {
+      const localType = (header >> 5) & 0x03;
+      const timeOffset = header & 0x1F;
+      const def = definitions[localType];
+      if (!def) throw new ActivityParseError('MALFORMED_FILE', `Undefined local message type ${localType}.`);
+      let timestamp = (lastTimestamp & ~0x1F) + timeOffset;
+      if (timeOffset < (lastTimestamp & 0x1F)) timestamp += 0x20;
+      lastTimestamp = timestamp;
+
+      const msg: FitMessage = { 253: timestamp };
+      offset = readDataMessage(view, offset, def, msg);
+      (messages[def.globalNum] ||= []).push(msg);
+      continue;
+    }
+
+    const localType = header & 0x0F;
+
+    if (header & 0x40) {
+      // Definition message
+      const hasDevData = (header & 0x20) !== 0;
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalNum = view.getUint16(offset + 2, littleEndian);
+      const numFields = view.getUint8(offset + 4);
+      offset += 5;
+
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < numFields; i++) {
+        fields.push({
+          num: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2)
+        });
+        offset += 3;
+      }
+
+      let devDataSize = 0;
+      if (hasDevData) {
+        const numDevFields = view.getUint8(offset++);
+        for (let i = 0; i < numDevFields; i++) {
+          devDataSize += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+
+      definitions[localType] = { globalNum, littleEndian, fields, devDataSize };
+      continue;
+    }
+
+    const def = definitions[localType];
+    if (!def) throw new ActivityParseError('MALFORMED_FILE', `Undefined local message type ${localType}.`);
+    const msg: FitMessage = {};
+    offset = readDataMessage(view, offset, def, msg);
+    if (typeof msg[253] === 'number') lastTimestamp = msg[253] as number;
+    (messages[def.globalNum] ||= []).push(msg);
+  }
+
+  return messages;
+};
+
+const readDataMessage = (view: DataView, offset: number, def: MessageDefinition, msg: FitMessage): number => {
+  for (const field of def.fields) {
+    if (offset + field.size > view.byteLength) throw new ActivityParseError('MALFORMED_FILE', 'Truncated FIT record.');
+    const value = readField(view, offset, field, def.littleEndian);
+    if (value !== undefined) msg[field.num] = value;
+    offset += field.size;
+  }
+  return offset + def.devDataSize;
+};
+
+const num = (msg: FitMessage, field: number): number | undefined => {
+  const v = msg[field];
+  return typeof v === 'number' ? v : undefined;
+};
+
+const fitDate = (ts: number) => new Date((ts + FIT_EPOCH_OFFSET) * 1000);
+
+const toTrackPoint = (msg: FitMessage): TrackPoint | null => {
+  const ts = num(msg, 253);
+  if (ts === undefined) return null;
+
+  const lat = num(msg, 0);
+  const lng = num(msg, 1);
+  // enhanced_* fields (78, 73) supersede the 16-bit legacy ones (2, 6)
+  const rawAlt = num(msg, 78) ?? num(msg, 2);
+  const rawSpeed = num(msg, 73) ?? num(msg, 6);
+  const distance = num(msg, 5);
+  const cadence = num(msg, 4);
+  const fractionalCadence = num(msg, 53);
+  // Running dynamics are stored with scale 10
+  const verticalOscillation = num(msg, 39);
+  const stanceTime = num(msg, 41);
+  const stepLength = num(msg, 85);
+
+  return {
+    time: fitDate(ts),
+    lat: lat !== undefined ? lat * SEMICIRCLE_TO_DEG : undefined,
+    lng: lng !== undefined ? lng * SEMICIRCLE_TO_DEG : undefined,
+    altitude: rawAlt !== undefined ? rawAlt / 5 - 500 : undefined,
+    distance: distance !== undefined ? distance / 100 : undefined,
+    hr: num(msg, 3),
+    speed: rawSpeed !== undefined ? rawSpeed / 1000 : undefined,
+    // FIT stores running cadence in strides/min (one foot)
+    cadence: cadence !== undefined ? Math.round((cadence + (fractionalCadence || 0) / 128) * 2) : undefined,
+    power: num(msg, 7),
+    verticalOscillation: verticalOscillation !== undefined ? verticalOscillation / 10 : undefined,
+    groundContactTime: stanceTime !== undefined ? stanceTime / 10 : undefined,
+    strideLength: stepLength !== undefined ? stepLength / 10000 : undefined
+  };
+};
+
+// lap intensity enum: 0 active, 1 rest, 2 warmup, 3 cooldown
+const LAP_INTENSITY: Lap['intensity'][] = ['active', 'rest', 'warmup', 'cooldown'];
+
+const toLap = (msg: FitMessage, index: number): Lap => {
+  const time = (num(msg, 8) ?? num(msg, 7) ?? 0) / 1000;
+  const distance = (num(msg, 9) ?? 0) / 100;
+  const startTime = num(msg, 2);
+  const intensity = num(msg, 23);
+  return {
+    id: index + 1,
+    startTime: startTime !== undefined ? fitDate(startTime) : undefined,
+    distance,
+    time,
+    avgPace: distance > 0 ? time / (distance / 1000) : 0,
+    avgHR: num(msg, 15) ?? 0,
+    maxHR: num(msg, 16),
+    intensity: LAP_INTENSITY[intensity ?? 0] || 'active',
+    source: 'device'
+  };
+};
+
+/**
+ * Binary FIT decoder (COROS / Garmin / Wahoo native export).
+ * Decodes record and lap messages into the same RunData structure
+ * produced by parseTCX.
+ */
+export const parseFIT = async (file: File): Promise<RunData> => {
+  const buffer = await file.arrayBuffer();
+  const messages = decodeMessages(buffer);
+
+  const points = (messages[MESG_RECORD] || [])
+    .map(toTrackPoint)
+    .filter((p): p is TrackPoint => p !== null);
+  const laps = (messages[MESG_LAP] || []).map(toLap);
+
+  return buildRunData(file.name, points, laps);
+};
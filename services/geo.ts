@@ -0,0 +1,74 @@
+import { TrackPoint } from '../types';
+
+const EARTH_RADIUS_M = 6371000;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two coordinates in meters (haversine).
+ */
+export const haversineDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Distance Reconstruction
+ * For tracks that carry coordinates but no device distance (GPX, some TCX),
+ * fills cumulative haversine distance and per-point speed in place.
+ * Returns true when the track was rebuilt.
+ */
+export const reconstructDistance = (points: TrackPoint[]): boolean => {
+  const hasDistance = points.some(p => p.distance !== undefined && p.distance > 0);
+  const hasCoords = points.some(p => p.lat !== undefined && p.lng !== undefined);
+  if (hasDistance || !hasCoords) return false;
+
+  let cumulative = 0;
+  let lastFix: TrackPoint | null = null;
+
+  points.forEach((p, i) => {
+    if (p.lat !== undefined && p.lng !== undefined) {
+      if (lastFix) cumulative += haversineDistance(lastFix.lat!, lastFix.lng!, p.lat, p.lng);
+      lastFix = p;
+    }
+
+    const prevDistance = i > 0 ? points[i - 1].distance || 0 : 0;
+    p.distance = cumulative;
+
+    if (i > 0 && p.speed === undefined) {
+      const timeDiff = (p.time.getTime() - points[i - 1].time.getTime()) / 1000;
+      p.speed = timeDiff > 0 ? (cumulative - prevDistance) / timeDiff : 0;
+    }
+  });
+
+  if (points.length > 0 && points[0].speed === undefined) points[0].speed = 0;
+  return true;
+};
+
+/**
+ * Evenly spaced (by distance) lat/lng samples of a track's course.
+ * Empty when the track has no coordinates.
+ */
+export const resampleRoute = (points: TrackPoint[], count: number): [number, number][] => {
+  const fixes = points.filter(p => p.lat !== undefined && p.lng !== undefined);
+  if (fixes.length < 2) return [];
+
+  const start = fixes[0].distance || 0;
+  const total = (fixes[fixes.length - 1].distance || 0) - start;
+  if (total <= 0) return [];
+
+  const out: [number, number][] = [];
+  let j = 0;
+  for (let k = 0; k < count; k++) {
+    const target = start + (total * k) / (count - 1);
+    while (j < fixes.length - 2 && (fixes[j + 1].distance || 0) < target) j++;
+    const a = fixes[j];
+    const b = fixes[j + 1];
+    const span = (b.distance || 0) - (a.distance || 0);
+    const f = span > 0 ? Math.min(1, Math.max(0, (target - (a.distance || 0)) / span)) : 0;
+    out.push([a.lat! + (b.lat! - a.lat!) * f, a.lng! + (b.lng! - a.lng!) * f]);
+  }
+  return out;
+};
@@ -0,0 +1,39 @@
+import { RunData, TrackPoint } from '../types';
+import { buildRunData } from './runBuilder';
+import { parseXml, findAll, findFirst, findChild, textOf } from './xml';
+
+/**
+ * GPX has coordinates, elevation and time only. Distance and speed are
+ * reconstructed from coordinates in the shared summary pipeline.
+ */
+export const parseGPX = async (file: File): Promise<RunData> => {
+  const text = await file.text();
+  const xml = parseXml(text);
+
+  const points: TrackPoint[] = [];
+  const trackpoints = findAll(xml, 'trkpt');
+
+  trackpoints.forEach(tp => {
+    const time = new Date(textOf(findChild(tp, 'time')));
+    const lat = parseFloat(tp.attrs.lat || '');
+    const lng = parseFloat(tp.attrs.lon || '');
+    const altitude = parseFloat(textOf(findChild(tp, 'ele')));
+    // HR lives in namespaced extensions (gpxtpx:hr, ns3:hr, ...)
+    const hr = parseInt(textOf(findFirst(tp, 'hr')));
+    // Same extensions carry per-foot cadence and, from some devices, power
+    const cad = parseFloat(textOf(findFirst(tp, 'cad')));
+    const power = parseFloat(textOf(findFirst(tp, 'power')));
+
+    points.push({
+      time,
+      lat: isNaN(lat) ? undefined : lat,
+      lng: isNaN(lng) ? undefined : lng,
+      altitude: isNaN(altitude) ? undefined : altitude,
+      hr: isNaN(hr) ? undefined : hr,
+      cadence: isNaN(cad) ? undefined : Math.round(cad * 2),
+      power: isNaN(power) ? undefined : power
+    });
+  });
+
+  return buildRunData(file.name, points);
+};
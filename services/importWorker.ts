@@ -0,0 +1,60 @@
+import { RunData, UserSettings } from '../types';
+import { parseActivityFile } from './activityParser';
+import { analyzeRun } from './runAnalysis';
+import { extractZip, isZipFile } from './zip';
+import { loadDemTiles } from './storage';
+
+export interface ImportWorkerRequest {
+  files: File[];
+  settings: UserSettings;
+}
+
+export type ImportWorkerMessage =
+  | { type: 'progress'; done: number; total: number; fileName?: string }
+  | { type: 'parsed'; fileName: string; run: RunData }
+  | { type: 'failed'; fileName: string; reason: string }
+  | { type: 'done' };
+
+const post = (message: ImportWorkerMessage) => self.postMessage(message);
+
+const errorReason = (err: unknown) => (err instanceof Error ? err.message : 'Unknown error.');
+
+/**
+ * Expands ZIP archives (including nested ones) into their files.
+ */
+const expandArchives = async (files: File[]): Promise<File[]> => {
+  const out: File[] = [];
+  for (const file of files) {
+    if (!isZipFile(file)) {
+      out.push(file);
+      continue;
+    }
+    try {
+      out.push(...await expandArchives(await extractZip(file)));
+    } catch (err) {
+      post({ type: 'failed', fileName: file.name, reason: errorReason(err) });
+    }
+  }
+  return out;
+};
+
+self.onmessage = async (e: MessageEvent<ImportWorkerRequest>) => {
+  const { settings } = e.data;
+  const files = await expandArchives(e.data.files);
+  // Elevation correction still runs without a DEM if the tiles can't be read
+  const demTiles = settings.elevation?.useDEM ? await loadDemTiles().catch(() => []) : [];
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    post({ type: 'progress', done: i, total: files.length, fileName: file.name });
+    try {
+      const run = analyzeRun(await parseActivityFile(file), settings, demTiles);
+      post({ type: 'parsed', fileName: file.name, run });
+    } catch (err) {
+      post({ type: 'failed', fileName: file.name, reason: errorReason(err) });
+    }
+  }
+
+  post({ type: 'progress', done: files.length, total: files.length });
+  post({ type: 'done' });
+};
@@ -0,0 +1,85 @@
+import { RunData, TrackPoint, Lap, Units } from '../types';
+import { calculateGAP } from './physiology';
+
+const METERS_PER_MILE = 1609.34;
+
+const pointsInRange = (points: TrackPoint[], start: number, end: number) =>
+  points.filter(p => {
+    const t = p.time.getTime();
+    return t >= start && t <= end;
+  });
+
+const summarizeSegment = (pts: TrackPoint[]) => {
+  const hrs = pts.filter(p => p.hr !== undefined).map(p => p.hr!);
+  return {
+    avgHR: hrs.length > 0 ? Math.round(hrs.reduce((a, b) => a + b, 0) / hrs.length) : 0,
+    maxHR: hrs.length > 0 ? Math.max(...hrs) : 0,
+    gap: pts.length > 1 ? calculateGAP(pts) : 0
+  };
+};
+
+/**
+ * Auto Splits
+ * Cuts the track every km or mile (depending on units) when the device
+ * recorded no laps. The final partial split is kept if it is meaningful.
+ */
+export const calculateAutoSplits = (points: TrackPoint[], units: Units): Lap[] => {
+  const splitLength = units === Units.MILES ? METERS_PER_MILE : 1000;
+  const splits: Lap[] = [];
+  if (points.length < 2) return splits;
+
+  let startIdx = 0;
+  let boundary = splitLength;
+
+  const closeSplit = (endIdx: number) => {
+    const segment = points.slice(startIdx, endIdx + 1);
+    const first = segment[0];
+    const last = segment[segment.length - 1];
+    const distance = (last.distance || 0) - (first.distance || 0);
+    const time = (last.time.getTime() - first.time.getTime()) / 1000;
+    splits.push({
+      id: splits.length + 1,
+      startTime: first.time,
+      distance,
+      time,
+      avgPace: distance > 0 ? time / (distance / 1000) : 0,
+      ...summarizeSegment(segment),
+      source: 'auto'
+    });
+    startIdx = endIdx;
+  };
+
+  points.forEach((p, i) => {
+    if (i > 0 && (p.distance || 0) >= boundary) {
+      closeSplit(i);
+      while ((p.distance || 0) >= boundary) boundary += splitLength;
+    }
+  });
+
+  const remaining = (points[points.length - 1].distance || 0) - (points[startIdx].distance || 0);
+  if (remaining > 50) closeSplit(points.length - 1);
+
+  return splits;
+};
+
+/**
+ * Returns the device laps enriched with GAP (and HR where the file had none),
+ * or auto splits when the run carries no laps.
+ */
+export const getLapSplits = (run: RunData, units: Units): Lap[] => {
+  if (run.laps.length === 0) return calculateAutoSplits(run.points, units);
+
+  return run.laps.map((lap, i) => {
+    if (!lap.startTime) return lap;
+    const start = lap.startTime.getTime();
+    const next = run.laps[i + 1]?.startTime;
+    const end = next ? next.getTime() : start + lap.time * 1000;
+    const stats = summarizeSegment(pointsInRange(run.points, start, end));
+    return {
+      ...lap,
+      avgHR: lap.avgHR || stats.avgHR,
+      maxHR: lap.maxHR || stats.maxHR,
+      gap: stats.gap
+    };
+  });
+};
@@ -1,24 +1,84 @@
 
 import { HRZoneMethod, UserSettings, HRZoneDistribution, RunData, TrackPoint } from '../types';
 
+// Grade is measured over this centred window; point-to-point altitude is too noisy
+const GAP_GRADE_WINDOW = 30; // seconds
+// Range of grades Minetti measured; steeper ones are clamped
+const MAX_GAP_GRADE = 0.45;
+const MIN_GRADE_DISTANCE = 5; // meters
+
+const secondsBetween = (a: TrackPoint, b: TrackPoint) => (b.time.getTime() - a.time.getTime()) / 1000;
+
+/**
+ * Energy cost of running in J/kg/m at a grade (rise/run),
+ * Minetti et al. (2002). 3.6 on the flat.
+ */
+export const minettiCost = (grade: number): number => {
+  const g = Math.max(-MAX_GAP_GRADE, Math.min(MAX_GAP_GRADE, grade));
+  return 155.4 * g ** 5 - 30.4 * g ** 4 - 43.3 * g ** 3 + 46.3 * g ** 2 + 19.5 * g + 3.6;
+};
+
+/**
+ * Flat-equivalent distance covered per point: each step's distance scaled
+ * by the cost of the grade around it. Cumulative, in meters.
+ */
+export const calculateEquivalentDistance = (points: TrackPoint[]): number[] => {
+  const half = GAP_GRADE_WINDOW / 2;
+  const out: number[] = [];
+  let j = 0;
+  let k = 0;
+  points.forEach((p, i) => {
+    while (j < i && secondsBetween(points[j], p) > half) j++;
+    if (k < i) k = i;
+    while (k < points.length - 1 && secondsBetween(p, points[k + 1]) <= half) k++;
+
+    const dist = (points[k].distance || 0) - (points[j].distance || 0);
+    const a1 = points[j].altitude;
+    const a2 = points[k].altitude;
+    const grade = dist >= MIN_GRADE_DISTANCE && a1 !== undefined && a2 !== undefined ? (a2 - a1) / dist : 0;
+
+    const step = i > 0 ? Math.max(0, (p.distance || 0) - (points[i - 1].distance || 0)) : 0;
+    out.push((i > 0 ? out[i - 1] : 0) + step * (minettiCost(grade) / minettiCost(0)));
+  });
+  return out;
+};
+
+/**
+ * Grade Adjusted Pace (GAP) series
+ * Equivalent flat pace (seconds per km) at every point over the same
+ * rolling window; 0 where the runner was standing.
+ */
+export const calculateGAPSeries = (points: TrackPoint[], equivalent: number[] = calculateEquivalentDistance(points)): number[] => {
+  const half = GAP_GRADE_WINDOW / 2;
+  let j = 0;
+  let k = 0;
+  return points.map((p, i) => {
+    while (j < i && secondsBetween(points[j], p) > half) j++;
+    if (k < i) k = i;
+    while (k < points.length - 1 && secondsBetween(p, points[k + 1]) <= half) k++;
+    const dist = equivalent[k] - equivalent[j];
+    const time = secondsBetween(points[j], points[k]);
+    return dist > 0 && time > 0 ? time / (dist / 1000) : 0;
+  });
+};
+
 /**
  * Grade Adjusted Pace (GAP)
- * Uses a simplified Minetti formula to adjust pace based on slope.
- * Returns equivalent flat pace in seconds per km.
+ * Average equivalent flat pace over a stretch of track, using moving
+ * time only (same rule as the run summary).
  */
-export const calculateGAP = (p1: TrackPoint, p2: TrackPoint): number => {
-  const dist = (p2.distance || 0) - (p1.distance || 0);
-  const elev = (p2.altitude || 0) - (p1.altitude || 0);
-  const time = (p2.time.getTime() - p1.time.getTime()) / 1000;
-  
-  if (dist <= 0 || time <= 0) return 0;
-  
-  const grade = elev / dist;
-  // Adjustment factor based on grade (standardized curve)
-  // Higher grade = much slower GAP (harder effort)
-  const adjFactor = 1 + (grade * 3) + (grade * grade * 10); 
-  const actualPace = time / (dist / 1000);
-  return actualPace / adjFactor;
+export const calculateGAP = (points: TrackPoint[], equivalent: number[] = calculateEquivalentDistance(points)): number => {
+  let time = 0;
+  let dist = 0;
+  for (let i = 1; i < points.length; i++) {
+    const dt = secondsBetween(points[i - 1], points[i]);
+    const dd = (points[i].distance || 0) - (points[i - 1].distance || 0);
+    if (dt > 0 && dt < 15 && dd / dt > 0.5) {
+      time += dt;
+      dist += equivalent[i] - equivalent[i - 1];
+    }
+  }
+  return dist > 0 ? time / (dist / 1000) : 0;
 };
 
 /**
@@ -59,11 +119,31 @@ export const calculateDecoupling = (run: RunData): number | null => {
   return ((eff1 - eff2) / eff1) * 100;
 };
 
+// Generic 5:00/km threshold used until the athlete's own is known
+export const DEFAULT_THRESHOLD_PACE = 300;
+
+/**
+ * Intensity Factor
+ * Ratio of threshold pace to average pace (1.0 = a full threshold effort).
+ */
+export const calculateIntensityFactor = (avgPace: number, thresholdPace: number = DEFAULT_THRESHOLD_PACE): number =>
+  avgPace > 0 ? thresholdPace / avgPace : 0;
+
 export const calculateZones = (settings: UserSettings): { min: number, max: number, label: string }[] => {
   const { maxHR, restingHR, method } = settings;
   const hrReserve = maxHR - restingHR;
 
-  if (method === HRZoneMethod.KARVONEN) {
+  if (method === HRZoneMethod.LTHR) {
+    // Friel-style running zones as % of lactate threshold HR
+    const lthr = settings.lthr || Math.round(maxHR * 0.9);
+    return [
+      { label: 'Z1 Recovery', min: Math.round(lthr * 0.65), max: Math.round(lthr * 0.85) },
+      { label: 'Z2 Aerobic', min: Math.round(lthr * 0.85), max: Math.round(lthr * 0.90) },
+      { label: 'Z3 Tempo', min: Math.round(lthr * 0.90), max: Math.round(lthr * 0.95) },
+      { label: 'Z4 Threshold', min: Math.round(lthr * 0.95), max: Math.round(lthr * 1.00) },
+      { label: 'Z5 Anaerobic', min: Math.round(lthr * 1.00), max: maxHR },
+    ];
+  } else if (method === HRZoneMethod.KARVONEN) {
     return [
       { label: 'Z1 Recovery', min: Math.round(restingHR + hrReserve * 0.50), max: Math.round(restingHR + hrReserve * 0.60) },
       { label: 'Z2 Aerobic', min: Math.round(restingHR + hrReserve * 0.60), max: Math.round(restingHR + hrReserve * 0.70) },
@@ -82,6 +162,41 @@ export const calculateZones = (settings: UserSettings): { min: number, max: numb
   }
 };
 
+/**
+ * HR Histogram
+ * Seconds spent at each (rounded) heart rate. Cached on the run so zone
+ * and load metrics can be recomputed without loading the point stream.
+ */
+export const calculateHRHistogram = (points: TrackPoint[]): Record<number, number> => {
+  const histogram: Record<number, number> = {};
+  forEachHRSample({ points } as RunData, (avgHr, duration) => {
+    const bpm = Math.round(avgHr);
+    histogram[bpm] = (histogram[bpm] || 0) + duration;
+  });
+  return histogram;
+};
+
+/**
+ * Visits every valid HR interval of a run as (avg bpm, seconds).
+ * Falls back to the cached histogram when points are not loaded.
+ */
+export const forEachHRSample = (run: RunData, visit: (avgHr: number, duration: number) => void) => {
+  if (run.points.length === 0 && run.hrHistogram) {
+    Object.entries(run.hrHistogram).forEach(([bpm, seconds]) => visit(Number(bpm), seconds));
+    return;
+  }
+
+  for (let i = 1; i < run.points.length; i++) {
+    const p1 = run.points[i - 1];
+    const p2 = run.points[i];
+    if (p1.hr && p2.hr) {
+      const avgHr = (p1.hr + p2.hr) / 2;
+      const duration = (p2.time.getTime() - p1.time.getTime()) / 1000;
+      if (duration > 0 && duration < 30) visit(avgHr, duration);
+    }
+  }
+};
+
 export const getZoneDistribution = (run: RunData, settings: UserSettings): HRZoneDistribution[] => {
   const zones = calculateZones(settings);
   const distribution: HRZoneDistribution[] = zones.map((z, i) => ({
@@ -95,23 +210,15 @@ export const getZoneDistribution = (run: RunData, settings: UserSettings): HRZon
 
   let totalValidSeconds = 0;
 
-  for (let i = 1; i < run.points.length; i++) {
-    const p1 = run.points[i - 1];
-    const p2 = run.points[i];
-    if (p1.hr && p2.hr) {
-      const avgHr = (p1.hr + p2.hr) / 2;
-      const duration = (p2.time.getTime() - p1.time.getTime()) / 1000;
-      if (duration > 0 && duration < 30) {
-        totalValidSeconds += duration;
-        const zoneIdx = distribution.findIndex(d => avgHr >= d.min && avgHr < (d.max + 1));
-        if (zoneIdx !== -1) {
-          distribution[zoneIdx].seconds += duration;
-        } else if (avgHr >= settings.maxHR) {
-            distribution[distribution.length-1].seconds += duration;
-        }
-      }
+  forEachHRSample(run, (avgHr, duration) => {
+    totalValidSeconds += duration;
+    const zoneIdx = distribution.findIndex(d => avgHr >= d.min && avgHr < (d.max + 1));
+    if (zoneIdx !== -1) {
+      distribution[zoneIdx].seconds += duration;
+    } else if (avgHr >= settings.maxHR) {
+        distribution[distribution.length-1].seconds += duration;
     }
-  }
+  });
 
   return distribution.map(d => ({
     ...d,
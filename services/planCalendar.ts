@@ -0,0 +1,97 @@
+import { TrainingPlan, PlanSession, PlanSchedule, ScheduledSession, SessionStatus, RunData } from '../types';
+import { detectWorkoutStructure, getExpectedStructure } from './workoutStructure';
+
+const DAY_MS = 86400000;
+// Runs more than this many days from a session are never matched to it
+const MATCH_WINDOW_DAYS = 2;
+// An interval run on an easy day (or the reverse) counts as this many days off
+const TYPE_MISMATCH_DAYS = 2;
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const fromDateKey = (key: string): Date => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Calendar days between two dates, DST-safe
+export const daysBetween = (a: Date, b: Date) => Math.round((startOfDay(b).getTime() - startOfDay(a).getTime()) / DAY_MS);
+
+export const createSchedule = (date: Date = new Date()): PlanSchedule => ({ anchor: 'start', date: toDateKey(date), moves: {} });
+
+/**
+ * Date of a session: its reschedule if any, otherwise the plan day counted
+ * from the start date, or back from race day (the last session's day).
+ */
+export const getSessionDate = (session: PlanSession, plan: TrainingPlan, schedule: PlanSchedule): Date => {
+  const moved = schedule.moves[session.id];
+  if (moved) return fromDateKey(moved);
+  const anchor = fromDateKey(schedule.date);
+  if (schedule.anchor === 'start') return addDays(anchor, session.day - 1);
+  const lastDay = plan.sessions.reduce((max, s) => Math.max(max, s.day), 1);
+  return addDays(anchor, session.day - lastDay);
+};
+
+/**
+ * Plan Calendar
+ * Every session on its date with its state relative to today, in date order.
+ */
+export const scheduleSessions = (
+  plan: TrainingPlan,
+  schedule: PlanSchedule,
+  completedSessions: Record<string, string>,
+  today: Date = new Date()
+): ScheduledSession[] =>
+  plan.sessions
+    .map(session => {
+      const date = getSessionDate(session, plan, schedule);
+      const offset = daysBetween(today, date);
+      const status: SessionStatus = completedSessions[session.id] ? 'completed' : offset === 0 ? 'today' : offset < 0 ? 'overdue' : 'upcoming';
+      return { session, date, status };
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.session.day - b.session.day);
+
+/**
+ * Groups scheduled sessions into Monday-based calendar weeks.
+ * Returns the Monday of each week with its sessions, oldest first.
+ */
+export const groupByWeek = (sessions: ScheduledSession[]): { weekStart: Date; sessions: ScheduledSession[] }[] => {
+  const weeks: { weekStart: Date; sessions: ScheduledSession[] }[] = [];
+  sessions.forEach(s => {
+    const weekStart = addDays(s.date, -((s.date.getDay() + 6) % 7));
+    const last = weeks[weeks.length - 1];
+    if (last && last.weekStart.getTime() === weekStart.getTime()) last.sessions.push(s);
+    else weeks.push({ weekStart, sessions: [s] });
+  });
+  return weeks;
+};
+
+export const weekDays = (weekStart: Date): Date[] => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+/**
+ * Open session a run most likely belongs to: the nearest by date within
+ * two days, with interval vs continuous mismatches counted as further away.
+ * The run needs its points for structure detection.
+ */
+export const matchRunToSession = (run: RunData, sessions: ScheduledSession[], taken: Set<string>): PlanSession | null => {
+  const candidates = sessions.filter(s => s.status !== 'completed' && !taken.has(s.session.id) && Math.abs(daysBetween(s.date, run.startTime)) <= MATCH_WINDOW_DAYS);
+  if (candidates.length === 0) return null;
+
+  const isInterval = detectWorkoutStructure(run).isInterval;
+  let best: PlanSession | null = null;
+  let bestScore = Infinity;
+  candidates.forEach(s => {
+    const typeMatches = (getExpectedStructure(s.session) !== null) === isInterval;
+    const score = Math.abs(daysBetween(s.date, run.startTime)) + (typeMatches ? 0 : TYPE_MISMATCH_DAYS);
+    if (score <= MATCH_WINDOW_DAYS && score < bestScore) {
+      best = s.session;
+      bestScore = score;
+    }
+  });
+  return best;
+};
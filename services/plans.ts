@@ -1,10 +1,39 @@
 
-import { TrainingPlan, PlanSession, RunData, RunnerLevel } from '../types';
+import { TrainingPlan, PlanSession, RunData, RunnerLevel, UserSettings, ComplianceBreakdown, TrainingPaces, WorkoutItem, WorkoutStep, WorkoutSegmentType } from '../types';
+import { getZoneDistribution } from './physiology';
+import { detectWorkoutStructure, getExpectedStructure } from './workoutStructure';
+import { isRepeat } from './workouts';
 
-export const getScaledPlan = (planId: string, level: RunnerLevel): TrainingPlan => {
-  const basePlan = PLANS[planId];
-  if (!basePlan) return basePlan;
+/**
+ * Target pace for a session from the athlete's training paces:
+ * rep sessions run at I pace, otherwise the target zone picks E/M/T/I.
+ */
+export const getSessionPace = (session: PlanSession, paces: TrainingPaces): number => {
+  const expected = getExpectedStructure(session);
+  if (expected?.reps && session.targetZone >= 4) return paces.interval;
+  switch (session.targetZone) {
+    case 1:
+    case 2: return (paces.easy[0] + paces.easy[1]) / 2;
+    case 3: return paces.marathon;
+    case 4: return paces.threshold;
+    default: return paces.interval;
+  }
+};
+
+// Continuous parts of a session stretch with the level; reps keep their length
+const SCALED_KINDS: WorkoutSegmentType[] = ['warmup', 'steady', 'cooldown'];
 
+export const scaleSteps = (items: WorkoutItem[], factor: number): WorkoutItem[] =>
+  items.map(item => {
+    if (isRepeat(item) || item.durationType !== 'time' || !SCALED_KINDS.includes(item.kind)) return item;
+    return { ...item, durationValue: Math.round(((item.durationValue || 0) * factor) / 30) * 30 };
+  });
+
+/**
+ * Plan adjusted for the athlete. Built-in plans are scaled by level;
+ * custom plans are taken as written and only get target paces.
+ */
+export const getScaledPlan = (basePlan: TrainingPlan, level: RunnerLevel, paces?: TrainingPaces | null): TrainingPlan => {
   const multipliers: Record<RunnerLevel, number> = {
     [RunnerLevel.BEGINNER]: 1.0,
     [RunnerLevel.INTERMEDIATE]: 1.3,
@@ -15,46 +44,141 @@ export const getScaledPlan = (planId: string, level: RunnerLevel): TrainingPlan
     ...basePlan,
     sessions: basePlan.sessions.map(s => ({
       ...s,
-      targetDuration: Math.round(s.targetDuration * multipliers[level])
+      ...(basePlan.custom ? {} : {
+        targetDuration: Math.round(s.targetDuration * multipliers[level]),
+        steps: scaleSteps(s.steps, multipliers[level])
+      }),
+      targetPace: paces ? getSessionPace(s, paces) : undefined
     }))
   };
 };
 
-// Fix: Export PLANS constant to allow external access (e.g., in App.tsx)
+const timed = (kind: WorkoutSegmentType, seconds: number, zone?: number): WorkoutStep => ({
+  kind, durationType: 'time', durationValue: seconds, targetType: zone ? 'hrZone' : 'none', targetZone: zone
+});
+
+const measured = (kind: WorkoutSegmentType, meters: number, zone?: number): WorkoutStep => ({
+  kind, durationType: 'distance', durationValue: meters, targetType: zone ? 'hrZone' : 'none', targetZone: zone
+});
+
+const repeat = (count: number, ...steps: WorkoutStep[]): WorkoutItem => ({ kind: 'repeat', count, steps });
+
+// Built-in plans; custom plans from the editor are stored alongside them
 export const PLANS: Record<string, TrainingPlan> = {
   c25k: {
     id: 'c25k',
     name: 'Couch to 5K',
     sessions: [
-      { id: 'c25k_w1d1', day: 1, title: 'W1D1: Intro', description: '60s run / 90s walk repeats', targetDuration: 20, targetZone: 2 },
-      { id: 'c25k_w1d2', day: 3, title: 'W1D2: Consistency', description: '60s run / 90s walk repeats', targetDuration: 20, targetZone: 2 },
-      { id: 'c25k_w1d3', day: 5, title: 'W1D3: Push', description: '60s run / 90s walk repeats', targetDuration: 20, targetZone: 2 },
-      { id: 'c25k_w3d1', day: 15, title: 'W3D1: Progression', description: '2 min run / 1 min walk', targetDuration: 25, targetZone: 2 },
-      { id: 'c25k_w5d3', day: 33, title: 'W5D3: The Wall', description: 'Continuous 20 minute run', targetDuration: 20, targetZone: 3 },
-      { id: 'c25k_final', day: 63, title: 'Final Graduation', description: '30-45 minute steady run', targetDuration: 30, targetZone: 3 },
+      { id: 'c25k_w1d1', day: 1, title: 'W1D1: Intro', steps: [timed('warmup', 300, 1), repeat(6, timed('work', 60, 2), timed('recovery', 90))], targetDuration: 20, targetZone: 2 },
+      { id: 'c25k_w1d2', day: 3, title: 'W1D2: Consistency', steps: [timed('warmup', 300, 1), repeat(6, timed('work', 60, 2), timed('recovery', 90))], targetDuration: 20, targetZone: 2 },
+      { id: 'c25k_w1d3', day: 5, title: 'W1D3: Push', steps: [timed('warmup', 300, 1), repeat(6, timed('work', 60, 2), timed('recovery', 90))], targetDuration: 20, targetZone: 2 },
+      { id: 'c25k_w3d1', day: 15, title: 'W3D1: Progression', steps: [timed('warmup', 240, 1), repeat(7, timed('work', 120, 2), timed('recovery', 60))], targetDuration: 25, targetZone: 2 },
+      { id: 'c25k_w5d3', day: 33, title: 'W5D3: The Wall', steps: [timed('steady', 1200, 3)], notes: 'Continuous 20 minute run', targetDuration: 20, targetZone: 3 },
+      { id: 'c25k_final', day: 63, title: 'Final Graduation', steps: [timed('steady', 1800, 3)], notes: '30-45 minute steady run', targetDuration: 30, targetZone: 3 },
     ]
   },
   run10k: {
     id: 'run10k',
     name: '10K Finisher',
     sessions: [
-      { id: '10k_w1d1', day: 1, title: 'Foundation', description: 'Easy base run', targetDuration: 30, targetZone: 2 },
-      { id: '10k_w2d1', day: 8, title: 'Intervals', description: '4x400m fast with rest', targetDuration: 35, targetZone: 4 },
-      { id: '10k_w4d1', day: 22, title: 'Threshold Work', description: '10 min warm up, 15 min Z4', targetDuration: 40, targetZone: 4 },
-      { id: '10k_long', day: 14, title: 'Long Run', description: 'Slow steady distance', targetDuration: 50, targetZone: 2 },
+      { id: '10k_w1d1', day: 1, title: 'Foundation', steps: [timed('steady', 1800, 2)], notes: 'Easy base run', targetDuration: 30, targetZone: 2 },
+      { id: '10k_w2d1', day: 8, title: 'Intervals', steps: [timed('warmup', 600, 2), repeat(4, measured('work', 400, 4), timed('recovery', 90)), timed('cooldown', 600, 1)], targetDuration: 35, targetZone: 4 },
+      { id: '10k_w4d1', day: 22, title: 'Threshold Work', steps: [timed('warmup', 600, 2), timed('work', 900, 4), timed('cooldown', 600, 1)], targetDuration: 40, targetZone: 4 },
+      { id: '10k_long', day: 14, title: 'Long Run', steps: [timed('steady', 3000, 2)], notes: 'Slow steady distance', targetDuration: 50, targetZone: 2 },
     ]
   }
 };
 
-export const calculateCompliance = (session: PlanSession, run: RunData): { score: number; notes: string } => {
+export const calculateCompliance = (session: PlanSession, run: RunData, settings: UserSettings): { score: number; notes: string; breakdown: ComplianceBreakdown } => {
   const durationDiff = Math.abs((run.summary.movingTime / 60) - session.targetDuration);
   const durationScore = Math.max(0, 100 - (durationDiff / session.targetDuration) * 100);
   
-  let intensityScore = 80;
-  const score = Math.round((durationScore * 0.7) + (intensityScore * 0.3));
+  const intensity = scoreIntensity(session, run, settings);
+  const intensityScore = intensity.score;
+
+  // Interval sessions are also scored on the shape of the workout
+  const expected = getExpectedStructure(session);
+  let structureNote = '';
+  let structureScore: number | undefined;
+  let score: number;
+  if (expected) {
+    const structure = detectWorkoutStructure(run);
+    structureScore = scoreStructure(expected, structure.reps, structure.isInterval);
+    structureNote = structure.isInterval
+      ? ` Detected ${structure.reps.count}${expected.reps ? ` of ${expected.reps}` : ''} reps.`
+      : ' No interval structure detected.';
+    score = Math.round((durationScore * 0.4) + (intensityScore * 0.3) + (structureScore * 0.3));
+  } else {
+    score = Math.round((durationScore * 0.7) + (intensityScore * 0.3));
+  }
   
   let notes = score > 85 ? "Excellent adherence to plan." : "Session intensity or duration deviated.";
+  notes += intensity.notes + structureNote;
   if (run.summary.trainingEffect > 4.5) notes += " High fatigue risk.";
   
-  return { score, notes };
+  return {
+    score,
+    notes,
+    breakdown: {
+      durationScore: Math.round(durationScore),
+      intensityScore: Math.round(intensityScore),
+      structureScore: structureScore !== undefined ? Math.round(structureScore) : undefined,
+      targetZone: session.targetZone,
+      timeInZonePct: Math.round(intensity.inZone),
+      timeAbovePct: Math.round(intensity.above),
+      timeBelowPct: Math.round(intensity.below),
+      driftPenalty: Math.round(intensity.driftPenalty)
+    }
+  };
+};
+
+/**
+ * Intensity Score
+ * Time in the target HR zone earns full credit. Easy sessions (Z1-Z3) get no
+ * credit for time above target; quality sessions (Z4+) get partial credit
+ * since reps often overshoot into the next zone. Cardiac drift above 5% is penalized.
+ */
+const scoreIntensity = (session: PlanSession, run: RunData, settings: UserSettings) => {
+  const distribution = getZoneDistribution(run, settings);
+  const target = session.targetZone;
+  const totalSeconds = distribution.reduce((a, d) => a + d.seconds, 0);
+
+  if (totalSeconds === 0) {
+    return { score: 50, inZone: 0, above: 0, below: 0, driftPenalty: 0, notes: ' No HR data to verify intensity.' };
+  }
+
+  const inZone = distribution.filter(d => d.zone === target).reduce((a, d) => a + d.percentage, 0);
+  const above = distribution.filter(d => d.zone > target).reduce((a, d) => a + d.percentage, 0);
+  const below = distribution.filter(d => d.zone < target).reduce((a, d) => a + d.percentage, 0);
+
+  const aboveCredit = target >= 4 ? 0.7 : 0;
+  const decoupling = run.summary.decoupling || 0;
+  const driftPenalty = decoupling > 5 ? Math.min(20, (decoupling - 5) * 2) : 0;
+  const score = Math.max(0, Math.min(100, inZone + above * aboveCredit + below * 0.3 - driftPenalty));
+
+  let notes = '';
+  if (above >= 20 && target < 4) notes += ` Spent ${Math.round(above)}% above Z${target}.`;
+  else if (below >= 40) notes += ` Spent ${Math.round(below)}% below Z${target}.`;
+  if (inZone < 30) notes += ` Only ${Math.round(inZone)}% in Z${target}.`;
+  if (driftPenalty > 0) notes += ` Cardiac drift ${decoupling.toFixed(1)}%.`;
+
+  return { score, inZone, above, below, driftPenalty, notes };
+};
+
+const scoreStructure = (
+  expected: { reps?: number; repDistance?: number; repDuration?: number },
+  reps: { count: number; meanDistance: number; meanDuration: number },
+  isInterval: boolean
+): number => {
+  if (!isInterval) return 0;
+  if (!expected.reps) return 100;
+
+  const countScore = Math.max(0, 100 - (Math.abs(reps.count - expected.reps) / expected.reps) * 100);
+  let lengthScore = 100;
+  if (expected.repDistance) {
+    lengthScore = Math.max(0, 100 - (Math.abs(reps.meanDistance - expected.repDistance) / expected.repDistance) * 100);
+  } else if (expected.repDuration) {
+    lengthScore = Math.max(0, 100 - (Math.abs(reps.meanDuration - expected.repDuration) / expected.repDuration) * 100);
+  }
+  return (countScore * 0.6) + (lengthScore * 0.4);
 };
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { PersonalRecord, RacePrediction, TrainingPaces } from '../types';
+
+export const RACE_DISTANCES: { key: string; label: string; meters: number }[] = [
+  { key: '5k', label: '5K', meters: 5000 },
+  { key: '10k', label: '10K', meters: 10000 },
+  { key: 'half', label: 'Half Marathon', meters: 21097.5 },
+  { key: 'marathon', label: 'Marathon', meters: 42195 },
+];
+
+const RIEGEL_EXPONENT = 1.06;
+// Efforts shorter than this overestimate aerobic fitness
+export const MIN_VDOT_DISTANCE = 1500;
+
+interface Effort {
+  key: string;
+  distance: number;
+  time: number;
+}
+
+/**
+ * Riegel: T2 = T1 * (D2 / D1)^1.06
+ */
+export const predictRiegel = (effort: Effort, distance: number): number =>
+  effort.time * Math.pow(distance / effort.distance, RIEGEL_EXPONENT);
+
+// Daniels/Gilbert oxygen cost of running at v (m/min)
+const vo2AtSpeed = (v: number) => -4.6 + 0.182258 * v + 0.000104 * v * v;
+
+// Fraction of VO2max sustainable for t minutes
+const fractionSustainable = (t: number) =>
+  0.8 + 0.1894393 * Math.exp(-0.012778 * t) + 0.2989558 * Math.exp(-0.1932605 * t);
+
+/**
+ * VDOT from a race-like effort (Daniels & Gilbert).
+ */
+export const calculateVDOT = (distance: number, seconds: number): number => {
+  const t = seconds / 60;
+  const v = distance / t;
+  return vo2AtSpeed(v) / fractionSustainable(t);
+};
+
+/**
+ * Race time for a distance at a given VDOT, solved by bisection.
+ */
+export const predictVDOT = (vdot: number, distance: number): number => {
+  let lo = 60;
+  let hi = 60 * 60 * 10;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    // Longer time -> lower VDOT
+    if (calculateVDOT(distance, mid) > vdot) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+// Pace (s/km) at a fraction of VO2max
+const paceAtFraction = (vdot: number, fraction: number): number => {
+  const vo2 = vdot * fraction;
+  // Solve 0.000104 v^2 + 0.182258 v - (4.6 + vo2) = 0
+  const a = 0.000104;
+  const b = 0.182258;
+  const c = -(4.6 + vo2);
+  const v = (-b + Math.sqrt(b * b - 4 * a * c)) / (2 * a);
+  return 60000 / v;
+};
+
+/**
+ * Efforts the predictions are based on: current PRs plus threshold pace,
+ * which is roughly what the athlete can hold for an hour.
+ */
+const collectEfforts = (records: PersonalRecord[], thresholdPace?: number): Effort[] => {
+  const efforts: Effort[] = records.map(r => ({ key: r.key, distance: r.distance, time: r.time }));
+  if (thresholdPace && thresholdPace > 0) {
+    efforts.push({ key: 'threshold', distance: (3600 / thresholdPace) * 1000, time: 3600 });
+  }
+  return efforts;
+};
+
+export const calculateBestVDOT = (records: PersonalRecord[], thresholdPace?: number): number | null => {
+  const vdots = collectEfforts(records, thresholdPace)
+    .filter(e => e.distance >= MIN_VDOT_DISTANCE)
+    .map(e => calculateVDOT(e.distance, e.time));
+  return vdots.length > 0 ? Math.max(...vdots) : null;
+};
+
+/**
+ * Race Predictions
+ * Riegel projects from the effort closest in distance to the target;
+ * VDOT uses the strongest effort's aerobic capacity.
+ */
+export const predictRaces = (records: PersonalRecord[], thresholdPace?: number): RacePrediction[] => {
+  const efforts = collectEfforts(records, thresholdPace);
+  const vdot = calculateBestVDOT(records, thresholdPace);
+
+  return RACE_DISTANCES.map(race => {
+    const closest = efforts.reduce<Effort | null>((best, e) => {
+      const gap = Math.abs(Math.log(race.meters / e.distance));
+      return !best || gap < Math.abs(Math.log(race.meters / best.distance)) ? e : best;
+    }, null);
+
+    return {
+      key: race.key,
+      label: race.label,
+      distance: race.meters,
+      riegel: closest ? predictRiegel(closest, race.meters) : undefined,
+      vdot: vdot ? predictVDOT(vdot, race.meters) : undefined,
+      sourceKey: closest?.key
+    };
+  });
+};
+
+/**
+ * Daniels Training Paces (seconds per km)
+ * E 59-74% VO2max, M = marathon race pace, T 88%, I 97.5%, R = mile race pace.
+ */
+export const calculateTrainingPaces = (vdot: number): TrainingPaces => ({
+  vdot,
+  easy: [paceAtFraction(vdot, 0.74), paceAtFraction(vdot, 0.59)],
+  marathon: predictVDOT(vdot, 42195) / 42.195,
+  threshold: paceAtFraction(vdot, 0.88),
+  interval: paceAtFraction(vdot, 0.975),
+  repetition: predictVDOT(vdot, 1609.34) / 1.60934
+});
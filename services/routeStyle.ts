@@ -0,0 +1,151 @@
+import { TrackPoint, Lap, UserSettings, MapColorMode, MapSettings } from '../types';
+import { calculateZones } from './physiology';
+
+export const DEFAULT_TILE_URL = 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png';
+
+export const DEFAULT_MAP_SETTINGS: MapSettings = {
+  colorMode: 'route',
+  tileUrl: '',
+  offline: false
+};
+
+export interface RouteStretch {
+  coords: [number, number][];
+  bucket: number;
+}
+
+export interface RoutePin {
+  index: number; // km or mile count, or lap number
+  lat: number;
+  lng: number;
+}
+
+// Pace over this trailing window, grade over this much distance around a point
+const PACE_WINDOW = 10; // seconds
+const GRADE_WINDOW = 50; // meters
+// Slower than this counts as walking or standing, kept out of the pace quintiles
+const MAX_PACE = 1200; // s/km
+// Grade bucket edges: steep down, down, flat, up, steep up
+export const GRADE_BREAKS = [-0.08, -0.03, 0.03, 0.08];
+export const ROUTE_BUCKETS = 5;
+
+const seconds = (a: TrackPoint, b: TrackPoint) => (b.time.getTime() - a.time.getTime()) / 1000;
+
+const bucketOf = (value: number, breaks: number[]) => {
+  const idx = breaks.findIndex(b => value < b);
+  return idx === -1 ? breaks.length : idx;
+};
+
+const rollingPace = (points: TrackPoint[]): (number | undefined)[] => {
+  let j = 0;
+  return points.map((p, i) => {
+    while (j < i && seconds(points[j], p) > PACE_WINDOW) j++;
+    const dist = (p.distance || 0) - (points[j].distance || 0);
+    const time = seconds(points[j], p);
+    return dist > 0 && time > 0 ? time / (dist / 1000) : undefined;
+  });
+};
+
+const rollingGrade = (points: TrackPoint[]): (number | undefined)[] => {
+  const half = GRADE_WINDOW / 2;
+  let j = 0;
+  let k = 0;
+  return points.map((p, i) => {
+    const d = p.distance || 0;
+    while (j < i && d - (points[j].distance || 0) > half) j++;
+    if (k < i) k = i;
+    while (k < points.length - 1 && (points[k + 1].distance || 0) - d <= half) k++;
+    const run = (points[k].distance || 0) - (points[j].distance || 0);
+    const a1 = points[j].altitude;
+    const a2 = points[k].altitude;
+    return run > 10 && a1 !== undefined && a2 !== undefined ? (a2 - a1) / run : undefined;
+  });
+};
+
+/**
+ * Route Coloring
+ * Puts every point in one of five buckets for the chosen mode and
+ * returns the bucket edges for the legend. Pace buckets are run-relative
+ * quintiles (0 = slowest), HR buckets are the athlete's zones, grade
+ * buckets follow GRADE_BREAKS. -1 marks points without data.
+ */
+export const classifyRoute = (points: TrackPoint[], mode: MapColorMode, settings: UserSettings): { buckets: number[]; breaks: number[] } => {
+  if (mode === 'hr') {
+    const zones = calculateZones(settings);
+    // Zone max is inclusive, as in the legend and zone distribution
+    const breaks = zones.slice(0, -1).map(z => z.max + 1);
+    return { buckets: points.map(p => (p.hr !== undefined ? bucketOf(p.hr, breaks) : -1)), breaks };
+  }
+
+  if (mode === 'grade') {
+    return { buckets: rollingGrade(points).map(g => (g !== undefined ? bucketOf(g, GRADE_BREAKS) : -1)), breaks: GRADE_BREAKS };
+  }
+
+  if (mode === 'pace') {
+    const paces = rollingPace(points);
+    // Slowest first, so each break a point is faster than moves it up a bucket
+    const sorted = paces.filter((v): v is number => v !== undefined && v < MAX_PACE).sort((a, b) => b - a);
+    if (sorted.length === 0) return { buckets: points.map(() => -1), breaks: [] };
+    const breaks = [1, 2, 3, 4].map(q => sorted[Math.floor((sorted.length * q) / ROUTE_BUCKETS)]);
+    return { buckets: paces.map(v => (v === undefined ? -1 : breaks.filter(b => v < b).length)), breaks };
+  }
+
+  return { buckets: points.map(() => 0), breaks: [] };
+};
+
+/**
+ * Joins consecutive GPS points of the same bucket into polylines.
+ * Neighbouring stretches share their boundary point so the line stays unbroken.
+ */
+export const buildRouteStretches = (points: TrackPoint[], buckets: number[]): RouteStretch[] => {
+  const stretches: RouteStretch[] = [];
+  let current: RouteStretch | null = null;
+  points.forEach((p, i) => {
+    if (p.lat === undefined || p.lng === undefined) return;
+    const coord: [number, number] = [p.lat, p.lng];
+    const bucket = buckets[i];
+    if (current && current.bucket === bucket) {
+      current.coords.push(coord);
+      return;
+    }
+    const last = current?.coords[current.coords.length - 1];
+    current = { coords: last ? [last, coord] : [coord], bucket };
+    stretches.push(current);
+  });
+  return stretches;
+};
+
+/**
+ * Position of each whole km or mile along the track.
+ */
+export const findDistanceMarkers = (points: TrackPoint[], unitLength: number): RoutePin[] => {
+  const markers: RoutePin[] = [];
+  let next = unitLength;
+  points.forEach(p => {
+    if (p.lat === undefined || p.lng === undefined) return;
+    while ((p.distance || 0) >= next) {
+      markers.push({ index: markers.length + 1, lat: p.lat, lng: p.lng });
+      next += unitLength;
+    }
+  });
+  return markers;
+};
+
+/**
+ * Where each device lap after the first starts, by its start time or,
+ * failing that, by the distance covered in the laps before it.
+ */
+export const findLapStarts = (points: TrackPoint[], laps: Lap[]): RoutePin[] => {
+  const pins: RoutePin[] = [];
+  let covered = 0;
+  laps.forEach((lap, i) => {
+    if (i > 0) {
+      const p = lap.startTime
+        ? points.find(pt => pt.time.getTime() >= lap.startTime!.getTime())
+        : points.find(pt => (pt.distance || 0) >= covered);
+      if (p && p.lat !== undefined && p.lng !== undefined) pins.push({ index: i + 1, lat: p.lat, lng: p.lng });
+    }
+    covered += lap.distance;
+  });
+  return pins;
+};
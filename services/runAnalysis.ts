@@ -0,0 +1,32 @@
+import { RunData, UserSettings, DemTile } from '../types';
+import { calculateTrainingEffect, calculateGAP, calculateDecoupling, calculateIntensityFactor, calculateHRHistogram } from './physiology';
+import { calculateTRIMP } from './trainingLoad';
+import { calculateBestEfforts, calculatePaceCurve } from './bestEfforts';
+import { processElevation } from './elevation';
+import { resampleRoute } from './geo';
+import { ROUTE_SAMPLES } from './segments';
+
+/**
+ * Fills every derived metric that needs the full point stream.
+ * Runs once per import (or migration) so stored summaries stay usable
+ * without loading points again. DEM tiles are only needed when the
+ * elevation settings enable DEM correction.
+ */
+export const analyzeRun = (run: RunData, settings: UserSettings, demTiles: DemTile[] = []): RunData => {
+  // Altitude first: GAP and VAM depend on the corrected profile
+  processElevation(run, settings.elevation, demTiles);
+  run.summary.trainingEffect = calculateTrainingEffect(run, settings);
+  run.summary.intensityFactor = calculateIntensityFactor(run.summary.avgPace, settings.thresholdPace);
+  run.summary.decoupling = calculateDecoupling(run) || 0;
+  run.summary.trimp = calculateTRIMP(run, settings);
+  run.hrHistogram = calculateHRHistogram(run.points);
+  run.bestEfforts = calculateBestEfforts(run);
+  run.paceCurve = calculatePaceCurve(run);
+  run.route = resampleRoute(run.points, ROUTE_SAMPLES);
+
+  if (run.points.length > 10) {
+    run.summary.gap = calculateGAP(run.points);
+  }
+
+  return run;
+};
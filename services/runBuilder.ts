@@ -0,0 +1,109 @@
+import { RunData, TrackPoint, Lap } from '../types';
+import { reconstructDistance } from './geo';
+import { calculateIntensityFactor } from './physiology';
+import { cleanTrack } from './dataQuality';
+import { deriveStrideLength, calculateRunningDynamics } from './dynamics';
+
+/**
+ * Shared summary pipeline for every importer.
+ * Takes the decoded track and builds a RunData with the same metrics
+ * regardless of the source format (TCX, FIT, GPX).
+ */
+export const buildRunData = (fileName: string, rawPoints: TrackPoint[], laps: Lap[] = []): RunData => {
+  // Repair recording faults first so every metric below sees a clean track
+  const { points, report } = cleanTrack(rawPoints);
+
+  // Tracks without device distance get it rebuilt from coordinates
+  reconstructDistance(points);
+  deriveStrideLength(points);
+
+  let totalAscent = 0;
+  let totalDescent = 0;
+  let lastAlt: number | null = null;
+  let maxHR = 0;
+  let hrSum = 0;
+  let hrCount = 0;
+  let movingTime = 0;
+  let maxPace = 0;
+
+  points.forEach((point, i) => {
+    const { time, altitude, distance, hr } = point;
+
+    if (i > 0) {
+      const prev = points[i - 1];
+      const timeDiff = (time.getTime() - prev.time.getTime()) / 1000;
+      const distDiff = (distance || 0) - (prev.distance || 0);
+
+      // Moving time threshold: if speed > 0.5 m/s
+      if (timeDiff > 0 && timeDiff < 15) {
+        if (distDiff / timeDiff > 0.5) {
+          movingTime += timeDiff;
+        }
+        
+        const currentPace = timeDiff / (distDiff / 1000);
+        if (currentPace > 120 && currentPace < 1200) { // filter outliers
+          if (maxPace === 0 || currentPace < maxPace) maxPace = currentPace;
+        }
+      }
+
+      if (altitude !== undefined && lastAlt !== null) {
+        const diff = altitude - lastAlt;
+        if (diff > 0) totalAscent += diff;
+        else if (diff < 0) totalDescent += Math.abs(diff);
+      }
+    }
+
+    if (altitude !== undefined) lastAlt = altitude;
+    if (hr !== undefined) {
+      maxHR = Math.max(maxHR, hr);
+      hrSum += hr;
+      hrCount++;
+    }
+  });
+
+  const totalDistance = points.length > 0 ? (points[points.length - 1].distance || 0) : 0;
+  const startTime = points[0]?.time || new Date();
+  const endTime = points[points.length - 1]?.time || new Date();
+  const elapsedTime = (endTime.getTime() - startTime.getTime()) / 1000;
+
+  const avgHR = hrCount > 0 ? hrSum / hrCount : 0;
+  const avgPace = movingTime > 0 ? movingTime / (totalDistance / 1000) : 0;
+  
+  // Advanced Pro Calculations
+  const aerobicEfficiency = avgHR > 0 ? (totalDistance / hrSum) * 100 : 0; 
+  const movementRatio = elapsedTime > 0 ? (movingTime / elapsedTime) * 100 : 0;
+  const vam = movingTime > 0 ? (totalAscent / movingTime) * 3600 : 0;
+
+  // Intensity Factor against the generic threshold; recomputed with the athlete's own on import
+  const intensityFactor = calculateIntensityFactor(avgPace);
+  const dynamics = calculateRunningDynamics(points);
+
+  return {
+    id: `run_${startTime.getTime()}`,
+    name: fileName.replace(/\.(tcx|fit|gpx)$/i, ''),
+    startTime,
+    points,
+    laps,
+    quality: report,
+    summary: {
+      totalDistance,
+      elapsedTime,
+      movingTime,
+      avgHR: Math.round(avgHR),
+      maxHR,
+      totalAscent,
+      totalDescent,
+      avgPace,
+      maxPace,
+      calories: Math.round((totalDistance / 1000) * 70),
+      fitnessScore: Math.round((avgHR * (movingTime / 3600)) / 10),
+      intensityFactor,
+      aerobicEfficiency,
+      movementRatio,
+      vam,
+      // Fix: Add trainingEffect default value to match RunData interface
+      trainingEffect: 0,
+      ...dynamics
+    }
+  };
+};
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { RunData, TrackPoint, Lap, UserSettings, HRZoneMethod } from '../types';
+import { buildRunData } from './runBuilder';
+import { parseTCX } from './tcxParser';
+import { writeTCX, writeGPX, writeCSV } from './runExport';
+
+const START = Date.UTC(2026, 9, 1, 7, 0, 0);
+
+// Values at the precision the writers keep, so a round-trip compares exactly
+const round = (v: number, digits: number) => +v.toFixed(digits);
+
+const makePoints = (count: number): TrackPoint[] =>
+  Array.from({ length: count }, (_, i) => ({
+    time: new Date(START + i * 1000),
+    lat: round(51.5 + i * 0.00003, 7),
+    lng: round(-0.1 + i * 0.00001, 7),
+    altitude: round(20 + Math.sin(i / 50) * 5, 2),
+    distance: round(i * 3.2, 2),
+    hr: 130 + (i % 30),
+    speed: 3.2,
+    cadence: 170 + (i % 4) * 2,
+    power: 250 + (i % 7),
+    verticalOscillation: 80.5,
+    groundContactTime: 240.2,
+    strideLength: 1.13
+  }));
+
+const makeLaps = (): Lap[] => [
+  { id: 1, startTime: new Date(START), distance: 320, time: 100, avgPace: 312.5, avgHR: 135, maxHR: 149, intensity: 'warmup', source: 'device' },
+  { id: 2, startTime: new Date(START + 100000), distance: 640, time: 200, avgPace: 312.5, avgHR: 145, maxHR: 159, intensity: 'active', source: 'device' },
+  { id: 3, startTime: new Date(START + 300000), distance: 640, time: 200, avgPace: 312.5, avgHR: 140, maxHR: 159, intensity: 'rest', source: 'device' },
+  { id: 4, startTime: new Date(START + 500000), distance: 316.8, time: 99, avgPace: 312.5, avgHR: 138, maxHR: 159, intensity: 'cooldown', source: 'device' }
+];
+
+const roundTrip = (run: RunData) => parseTCX(new File([writeTCX(run)], 'export.tcx'));
+
+const settings = { age: 30, maxHR: 190, restingHR: 55, method: HRZoneMethod.KARVONEN } as UserSettings;
+
+describe('writeTCX', () => {
+  it('round-trips every point field through parseTCX', async () => {
+    const run = buildRunData('Morning Run.tcx', makePoints(600), makeLaps());
+    const back = await roundTrip(run);
+
+    expect(back.points).toHaveLength(run.points.length);
+    expect(back.points).toEqual(run.points);
+  });
+
+  it('round-trips device laps, including warm-up and cool-down', async () => {
+    const run = buildRunData('Morning Run.tcx', makePoints(600), makeLaps());
+    const back = await roundTrip(run);
+
+    expect(back.laps).toEqual(run.laps);
+  });
+
+  it('round-trips the run name, start time and summary', async () => {
+    const run = buildRunData('Morning Run.tcx', makePoints(600), makeLaps());
+    run.name = 'Tempo & Hills <Tuesday>';
+    run.summary.calories = 151;
+    const back = await roundTrip(run);
+
+    expect(back.name).toBe(run.name);
+    expect(back.id).toBe(run.id);
+    expect(back.startTime).toEqual(run.startTime);
+    expect(back.summary.calories).toBe(151);
+    expect(back.summary.totalDistance).toBeCloseTo(run.summary.totalDistance, 6);
+    expect(back.summary.elapsedTime).toBe(run.summary.elapsedTime);
+    expect(back.summary.avgHR).toBe(run.summary.avgHR);
+    expect(back.summary.maxHR).toBe(run.summary.maxHR);
+  });
+
+  it('writes a run without device laps as one lap covering the track', async () => {
+    const run = buildRunData('Easy.tcx', makePoints(300));
+    const back = await roundTrip(run);
+
+    expect(back.points).toEqual(run.points);
+    expect(back.laps).toHaveLength(1);
+    expect(back.laps[0].time).toBe(run.summary.elapsedTime);
+    expect(back.laps[0].startTime).toEqual(run.startTime);
+  });
+
+  it('is stable across repeated round-trips', async () => {
+    const run = buildRunData('Morning Run.tcx', makePoints(600), makeLaps());
+    const xml = writeTCX(run);
+    expect(writeTCX(await roundTrip(run))).toBe(xml);
+  });
+});
+
+describe('writeGPX', () => {
+  it('leaves out points without coordinates', () => {
+    const points = makePoints(10);
+    points[4] = { ...points[4], lat: undefined, lng: undefined };
+    const gpx = writeGPX(buildRunData('Run.gpx', points));
+
+    expect(gpx.match(/<trkpt /g)).toHaveLength(9);
+    expect(gpx).toContain('<gpxtpx:hr>130</gpxtpx:hr>');
+    expect(gpx).toContain('<gpxtpx:cad>85</gpxtpx:cad>');
+  });
+});
+
+describe('writeCSV', () => {
+  it('writes one row per point with pace, GAP and HR zone', () => {
+    const run = buildRunData('Run.tcx', makePoints(60));
+    const [header, ...rows] = writeCSV(run, settings).trim().split('\n');
+    const columns = header.split(',');
+    const row = rows[30].split(',');
+    const cell = (name: string) => row[columns.indexOf(name)];
+
+    expect(rows).toHaveLength(run.points.length);
+    expect(cell('elapsed_s')).toBe('30');
+    expect(cell('hr')).toBe(String(run.points[30].hr));
+    expect(+cell('pace_s_per_km')).toBeCloseTo(312.5, 1);
+    expect(+cell('gap_s_per_km')).toBeGreaterThan(0);
+    expect(cell('hr_zone')).toMatch(/^[1-5]$/);
+  });
+});
@@ -0,0 +1,223 @@
+import { RunData, TrackPoint, Lap, UserSettings } from '../types';
+import { calculateGAPSeries, calculateZones } from './physiology';
+import { escapeXml } from './xml';
+import { fileSlug } from './workoutExport';
+
+const TCX_NS = 'http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2';
+const TPX_NS = 'http://www.garmin.com/xmlschemas/ActivityExtension/v2';
+const GPX_TPX_NS = 'http://www.garmin.com/xmlschemas/TrackPointExtension/v1';
+// Vertical oscillation, ground contact time and stride length, read back by parseTCX
+const DYNAMICS_NS = 'urn:liquid-pro:running-dynamics:v1';
+// Warm-up and cool-down laps, which TCX Intensity (Active/Resting) cannot express
+const LAP_NS = 'urn:liquid-pro:lap:v1';
+
+// Trims trailing zeros so exported values read back exactly as stored
+const num = (v: number, digits: number) => String(+v.toFixed(digits));
+
+// The recorded altitude, so a re-import applies elevation correction afresh
+const recordedAltitude = (p: TrackPoint) => p.rawAltitude ?? p.altitude;
+
+export const runFileName = (run: RunData, ext: string) => `${fileSlug(run.name)}.${ext}`;
+
+/**
+ * Splits the track by device lap start times. Runs without device laps
+ * are written as one lap covering the whole track.
+ */
+const splitByLaps = (run: RunData): { lap: Lap | null; points: TrackPoint[] }[] => {
+  const laps = run.laps.filter(l => l.source !== 'auto');
+  if (laps.length === 0) return [{ lap: null, points: run.points }];
+
+  let covered = 0;
+  const starts = laps.map(lap => {
+    const start = lap.startTime?.getTime() ?? run.points.find(p => (p.distance || 0) >= covered)?.time.getTime() ?? Infinity;
+    covered += lap.distance;
+    return start;
+  });
+  return laps.map((lap, i) => ({
+    lap,
+    points: run.points.filter(p => {
+      const t = p.time.getTime();
+      return (i === 0 || t >= starts[i]) && (i === laps.length - 1 || t < starts[i + 1]);
+    })
+  }));
+};
+
+const tcxTrackpoint = (p: TrackPoint): string => {
+  const lines = [`            <Time>${p.time.toISOString()}</Time>`];
+  if (p.lat !== undefined && p.lng !== undefined) {
+    lines.push(`            <Position><LatitudeDegrees>${num(p.lat, 7)}</LatitudeDegrees><LongitudeDegrees>${num(p.lng, 7)}</LongitudeDegrees></Position>`);
+  }
+  const altitude = recordedAltitude(p);
+  if (altitude !== undefined) lines.push(`            <AltitudeMeters>${num(altitude, 2)}</AltitudeMeters>`);
+  if (p.distance !== undefined) lines.push(`            <DistanceMeters>${num(p.distance, 2)}</DistanceMeters>`);
+  if (p.hr !== undefined) lines.push(`            <HeartRateBpm><Value>${Math.round(p.hr)}</Value></HeartRateBpm>`);
+
+  const tpx = [
+    p.speed !== undefined ? `<Speed>${num(p.speed, 3)}</Speed>` : '',
+    p.cadence !== undefined ? `<RunCadence>${num(p.cadence / 2, 1)}</RunCadence>` : '',
+    p.power !== undefined ? `<Watts>${Math.round(p.power)}</Watts>` : ''
+  ].join('');
+  const dynamics = [
+    p.verticalOscillation !== undefined ? `<VerticalOscillation>${num(p.verticalOscillation, 1)}</VerticalOscillation>` : '',
+    p.groundContactTime !== undefined ? `<GroundContactTime>${num(p.groundContactTime, 1)}</GroundContactTime>` : '',
+    p.strideLength !== undefined ? `<StrideLength>${num(p.strideLength, 3)}</StrideLength>` : ''
+  ].join('');
+  if (tpx || dynamics) {
+    lines.push(`            <Extensions>${tpx ? `<TPX xmlns="${TPX_NS}">${tpx}</TPX>` : ''}${dynamics ? `<RunningDynamics xmlns="${DYNAMICS_NS}">${dynamics}</RunningDynamics>` : ''}</Extensions>`);
+  }
+  return ['          <Trackpoint>', ...lines, '          </Trackpoint>'].join('\n');
+};
+
+const tcxLap = (run: RunData, lap: Lap | null, points: TrackPoint[], calories: number): string => {
+  const first = points[0];
+  const last = points[points.length - 1];
+  const start = lap?.startTime || first?.time || run.startTime;
+  const time = lap ? lap.time : run.summary.elapsedTime;
+  const distance = lap ? lap.distance : run.summary.totalDistance;
+  const avgHR = lap ? lap.avgHR : Math.round(run.summary.avgHR);
+  const maxHR = lap ? lap.maxHR : run.summary.maxHR;
+  const fallbackDistance = first && last ? (last.distance || 0) - (first.distance || 0) : 0;
+
+  return [
+    `      <Lap StartTime="${start.toISOString()}">`,
+    `        <TotalTimeSeconds>${num(time, 3)}</TotalTimeSeconds>`,
+    `        <DistanceMeters>${num(distance || fallbackDistance, 2)}</DistanceMeters>`,
+    `        <Calories>${calories}</Calories>`,
+    ...(avgHR ? [`        <AverageHeartRateBpm><Value>${avgHR}</Value></AverageHeartRateBpm>`] : []),
+    ...(maxHR ? [`        <MaximumHeartRateBpm><Value>${maxHR}</Value></MaximumHeartRateBpm>`] : []),
+    `        <Intensity>${lap?.intensity === 'rest' ? 'Resting' : 'Active'}</Intensity>`,
+    `        <TriggerMethod>Manual</TriggerMethod>`,
+    ...(points.length > 0 ? ['        <Track>', ...points.map(tcxTrackpoint), '        </Track>'] : []),
+    ...(lap?.intensity === 'warmup' || lap?.intensity === 'cooldown'
+      ? [`        <Extensions><LapIntensity xmlns="${LAP_NS}">${lap.intensity}</LapIntensity></Extensions>`]
+      : []),
+    `      </Lap>`
+  ].join('\n');
+};
+
+/**
+ * Spreads the run's calories over the laps by distance, rounding the
+ * running total so the laps add up to the run exactly.
+ */
+const lapCalories = (run: RunData, laps: { lap: Lap | null }[]): number[] => {
+  const total = run.summary.calories || 0;
+  const distance = laps.reduce((sum, { lap }) => sum + (lap ? lap.distance : 0), 0);
+  let covered = 0;
+  let given = 0;
+  return laps.map(({ lap }, i) => {
+    covered += lap ? lap.distance : 0;
+    const upTo = i === laps.length - 1 || distance <= 0 ? total : Math.round((total * covered) / distance);
+    const calories = Math.round(upTo) - given;
+    given += calories;
+    return calories;
+  });
+};
+
+/**
+ * TCX Writer
+ * Writes the run as a TCX activity: device laps with their tracks,
+ * HR, and speed/cadence/power in the TPX extension. Running dynamics go
+ * in a separate extension, and the run name in the activity notes, both
+ * read back by parseTCX. Needs the run's points.
+ */
+export const writeTCX = (run: RunData): string => {
+  const laps = splitByLaps(run);
+  const calories = lapCalories(run, laps);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<TrainingCenterDatabase xmlns="${TCX_NS}">`,
+    '  <Activities>',
+    '    <Activity Sport="Running">',
+    `      <Id>${run.startTime.toISOString()}</Id>`,
+    ...laps.map(({ lap, points }, i) => tcxLap(run, lap, points, calories[i])),
+    `      <Notes>${escapeXml(run.name)}</Notes>`,
+    '    </Activity>',
+    '  </Activities>',
+    '</TrainingCenterDatabase>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * GPX Writer
+ * Track points with elevation, time, and HR/cadence/power extensions.
+ * GPX has no place for points without coordinates, so those are left out.
+ */
+export const writeGPX = (run: RunData): string => {
+  const trkpts = run.points
+    .filter(p => p.lat !== undefined && p.lng !== undefined)
+    .map(p => {
+      const altitude = recordedAltitude(p);
+      const ext = [
+        p.hr !== undefined ? `<gpxtpx:hr>${Math.round(p.hr)}</gpxtpx:hr>` : '',
+        p.cadence !== undefined ? `<gpxtpx:cad>${num(p.cadence / 2, 1)}</gpxtpx:cad>` : ''
+      ].join('');
+      return [
+        `      <trkpt lat="${num(p.lat!, 7)}" lon="${num(p.lng!, 7)}">`,
+        ...(altitude !== undefined ? [`        <ele>${num(altitude, 2)}</ele>`] : []),
+        `        <time>${p.time.toISOString()}</time>`,
+        ...(ext || p.power !== undefined
+          ? [`        <extensions>${p.power !== undefined ? `<power>${Math.round(p.power)}</power>` : ''}${ext ? `<gpxtpx:TrackPointExtension>${ext}</gpxtpx:TrackPointExtension>` : ''}</extensions>`]
+          : []),
+        '      </trkpt>'
+      ].join('\n');
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="Liquid Pro" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="${GPX_TPX_NS}">`,
+    `  <metadata><time>${run.startTime.toISOString()}</time></metadata>`,
+    '  <trk>',
+    `    <name>${escapeXml(run.name)}</name>`,
+    '    <type>running</type>',
+    '    <trkseg>',
+    ...trkpts,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    ''
+  ].join('\n');
+};
+
+const CSV_COLUMNS = [
+  'time', 'elapsed_s', 'distance_m', 'lat', 'lng', 'altitude_m', 'raw_altitude_m', 'hr', 'cadence_spm', 'power_w', 'speed_ms',
+  'stride_m', 'vertical_oscillation_mm', 'ground_contact_ms', 'pace_s_per_km', 'gap_s_per_km', 'hr_zone'
+];
+
+/**
+ * CSV Writer
+ * One row per track point: the recorded streams plus derived pace, GAP
+ * (same rolling window as the charts) and HR zone for the athlete.
+ */
+export const writeCSV = (run: RunData, settings: UserSettings): string => {
+  const points = run.points;
+  const pace = calculateGAPSeries(points, points.map(p => p.distance || 0));
+  const gap = calculateGAPSeries(points);
+  const zones = calculateZones(settings);
+  const start = points[0]?.time.getTime() ?? 0;
+  const cell = (v: number | undefined, digits: number) => (v === undefined || isNaN(v) ? '' : num(v, digits));
+
+  const rows = points.map((p, i) => {
+    const zone = p.hr !== undefined ? zones.findIndex(z => p.hr! >= z.min && p.hr! < z.max + 1) + 1 : 0;
+    return [
+      p.time.toISOString(),
+      cell((p.time.getTime() - start) / 1000, 3),
+      cell(p.distance, 2),
+      cell(p.lat, 7),
+      cell(p.lng, 7),
+      cell(p.altitude, 2),
+      cell(p.rawAltitude, 2),
+      cell(p.hr, 0),
+      cell(p.cadence, 0),
+      cell(p.power, 0),
+      cell(p.speed, 3),
+      cell(p.strideLength, 3),
+      cell(p.verticalOscillation, 1),
+      cell(p.groundContactTime, 1),
+      pace[i] > 0 ? num(pace[i], 1) : '',
+      gap[i] > 0 ? num(gap[i], 1) : '',
+      zone > 0 ? String(zone) : ''
+    ].join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows, ''].join('\n');
+};
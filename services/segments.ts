@@ -0,0 +1,199 @@
+import { RunData, TrackPoint, Segment, SegmentEffort, RouteGroup } from '../types';
+import { haversineDistance } from './geo';
+import { calculateGAP } from './physiology';
+
+// How far a fix may be from the segment line and still count as on it
+const MATCH_TOLERANCE = 25; // meters
+// Spacing of the stored segment vertices
+const VERTEX_SPACING = 10; // meters
+// An effort may wander at most this much longer than the segment itself
+const MAX_LENGTH_RATIO = 1.5;
+// Course samples cached per run (RunData.route)
+export const ROUTE_SAMPLES = 50;
+// Routes: same course when resampled courses stay this close on average
+const ROUTE_TOLERANCE = 60; // meters
+const ROUTE_DISTANCE_RATIO = 0.05;
+
+const hasFix = (p: TrackPoint) => p.lat !== undefined && p.lng !== undefined;
+const distTo = (p: TrackPoint, v: [number, number]) => haversineDistance(p.lat!, p.lng!, v[0], v[1]);
+
+/**
+ * Builds a segment from a stretch of a run, thinned to a vertex every
+ * few meters. Efforts are filled in by matching.
+ */
+export const createSegment = (name: string, run: RunData, startIdx: number, endIdx: number): Segment => {
+  const stretch = run.points.slice(startIdx, endIdx + 1).filter(hasFix);
+  const polyline: [number, number][] = [];
+  let lastDistance = -Infinity;
+  stretch.forEach((p, i) => {
+    if ((p.distance || 0) - lastDistance >= VERTEX_SPACING || i === stretch.length - 1) {
+      polyline.push([p.lat!, p.lng!]);
+      lastDistance = p.distance || 0;
+    }
+  });
+
+  return {
+    id: `seg_${Date.now()}`,
+    name,
+    polyline,
+    distance: (run.points[endIdx].distance || 0) - (run.points[startIdx].distance || 0),
+    createdAt: new Date(),
+    efforts: []
+  };
+};
+
+const boundsOf = (coords: [number, number][]) => {
+  const lats = coords.map(c => c[0]);
+  const lngs = coords.map(c => c[1]);
+  return { minLat: Math.min(...lats), maxLat: Math.max(...lats), minLng: Math.min(...lngs), maxLng: Math.max(...lngs) };
+};
+
+/**
+ * Cheap pre-check on a stored run summary: does its course pass near the
+ * segment at all? Runs without a cached course are always checked.
+ */
+export const mayCoverSegment = (segment: Segment, run: RunData): boolean => {
+  if (!run.route) return true;
+  if (run.route.length === 0 || segment.polyline.length === 0) return false;
+  const a = boundsOf(segment.polyline);
+  const b = boundsOf(run.route);
+  // ~0.001° is about 100 m, enough slack for the route's coarse sampling
+  const pad = 0.001;
+  return a.minLat <= b.maxLat + pad && a.maxLat >= b.minLat - pad && a.minLng <= b.maxLng + pad && a.maxLng >= b.minLng - pad;
+};
+
+/**
+ * Index of the fix closest to `target` within the run of consecutive
+ * fixes (starting at fixes[k]) that are inside the tolerance.
+ */
+const closestInCluster = (points: TrackPoint[], fixes: number[], k: number, target: [number, number]): number => {
+  let best = k;
+  let bestDist = distTo(points[fixes[k]], target);
+  while (k + 1 < fixes.length && distTo(points[fixes[k + 1]], target) <= MATCH_TOLERANCE) {
+    k++;
+    const d = distTo(points[fixes[k]], target);
+    if (d < bestDist) {
+      best = k;
+      bestDist = d;
+    }
+  }
+  return best;
+};
+
+/**
+ * Every vertex of the segment must have a fix of the effort nearby;
+ * catches runs that only share the start and end.
+ */
+const coversSegment = (points: TrackPoint[], startIdx: number, endIdx: number, segment: Segment): boolean => {
+  const stretch = points.slice(startIdx, endIdx + 1).filter(hasFix);
+  return segment.polyline.every(v => stretch.some(p => distTo(p, v) <= MATCH_TOLERANCE));
+};
+
+const describeEffort = (run: RunData, startIdx: number, endIdx: number): SegmentEffort => {
+  const pts = run.points.slice(startIdx, endIdx + 1);
+  const time = (pts[pts.length - 1].time.getTime() - pts[0].time.getTime()) / 1000;
+  const distance = (pts[pts.length - 1].distance || 0) - (pts[0].distance || 0);
+  const hrs = pts.filter(p => p.hr !== undefined);
+  return {
+    runId: run.id,
+    date: run.startTime,
+    startIdx,
+    endIdx,
+    time,
+    distance,
+    pace: distance > 0 ? time / (distance / 1000) : 0,
+    gap: calculateGAP(pts),
+    avgHR: hrs.length > 0 ? Math.round(hrs.reduce((a, p) => a + p.hr!, 0) / hrs.length) : 0
+  };
+};
+
+/**
+ * Segment Matching
+ * Finds every pass of a run over the segment in its direction of travel:
+ * a fix near the start, later a fix near the end within a sane distance,
+ * and the whole segment line covered in between. Runs that only overlap
+ * part of the segment, or run it backwards, produce no effort.
+ */
+export const matchSegment = (segment: Segment, run: RunData): SegmentEffort[] => {
+  const points = run.points;
+  const fixes = points.map((p, i) => (hasFix(p) ? i : -1)).filter(i => i !== -1);
+  if (fixes.length < 2 || segment.polyline.length < 2) return [];
+
+  const start = segment.polyline[0];
+  const end = segment.polyline[segment.polyline.length - 1];
+  const maxLength = segment.distance * MAX_LENGTH_RATIO + MATCH_TOLERANCE * 2;
+  const minLength = segment.distance / MAX_LENGTH_RATIO - MATCH_TOLERANCE * 2;
+  const efforts: SegmentEffort[] = [];
+
+  let k = 0;
+  while (k < fixes.length) {
+    if (distTo(points[fixes[k]], start) > MATCH_TOLERANCE) {
+      k++;
+      continue;
+    }
+    const s = closestInCluster(points, fixes, k, start);
+    const startDistance = points[fixes[s]].distance || 0;
+
+    let e = -1;
+    for (let j = s + 1; j < fixes.length; j++) {
+      const covered = (points[fixes[j]].distance || 0) - startDistance;
+      if (covered > maxLength) break;
+      if (covered >= minLength && distTo(points[fixes[j]], end) <= MATCH_TOLERANCE) {
+        e = closestInCluster(points, fixes, j, end);
+        break;
+      }
+    }
+
+    if (e !== -1 && coversSegment(points, fixes[s], fixes[e], segment)) {
+      efforts.push(describeEffort(run, fixes[s], fixes[e]));
+      k = e + 1;
+    } else {
+      k = s + 1;
+    }
+  }
+
+  return efforts;
+};
+
+/**
+ * Efforts ranked fastest first.
+ */
+export const getLeaderboard = (segment: Segment): SegmentEffort[] =>
+  [...segment.efforts].sort((a, b) => a.time - b.time);
+
+/**
+ * Replaces a run's efforts on the segment with freshly matched ones.
+ */
+export const withRunEfforts = (segment: Segment, runId: string, efforts: SegmentEffort[]): Segment => ({
+  ...segment,
+  efforts: [...segment.efforts.filter(e => e.runId !== runId), ...efforts]
+});
+
+const routeDeviation = (a: [number, number][], b: [number, number][]) =>
+  a.reduce((sum, v, i) => sum + haversineDistance(v[0], v[1], b[i][0], b[i][1]), 0) / a.length;
+
+/**
+ * Repeated Routes
+ * Groups runs whose whole course matches (same direction, similar
+ * distance, resampled courses close together). Only groups of two or
+ * more runs are returned.
+ */
+export const groupRoutes = (runs: RunData[]): RouteGroup[] => {
+  const groups: { lead: RunData; members: RunData[] }[] = [];
+  const sorted = [...runs].sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+
+  sorted.forEach(run => {
+    if (!run.route || run.route.length === 0) return;
+    const group = groups.find(g =>
+      g.lead.route!.length === run.route!.length &&
+      Math.abs(g.lead.summary.totalDistance - run.summary.totalDistance) <= g.lead.summary.totalDistance * ROUTE_DISTANCE_RATIO &&
+      routeDeviation(g.lead.route!, run.route!) <= ROUTE_TOLERANCE
+    );
+    if (group) group.members.push(run);
+    else groups.push({ lead: run, members: [run] });
+  });
+
+  return groups
+    .filter(g => g.members.length > 1)
+    .map(g => ({ id: g.lead.id, runIds: g.members.map(r => r.id), distance: g.lead.summary.totalDistance }));
+};
@@ -0,0 +1,179 @@
+import { RunData, TrackPoint, DemTile, Segment } from '../types';
+
+const DB_NAME = 'liquid_pro';
+const DB_VERSION = 3;
+// Summaries are small and always loaded; point streams are loaded per run on demand
+const RUNS_STORE = 'runs';
+const POINTS_STORE = 'points';
+// User-supplied elevation model tiles (v2)
+const DEM_STORE = 'dem';
+// Segments with their matched efforts (v3)
+const SEGMENTS_STORE = 'segments';
+
+const LEGACY_RUNS_KEY = 'liquid_pro_runs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RUNS_STORE)) db.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(POINTS_STORE)) db.createObjectStore(POINTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DEM_STORE)) db.createObjectStore(DEM_STORE, { keyPath: 'name' });
+        if (!db.objectStoreNames.contains(SEGMENTS_STORE)) db.createObjectStore(SEGMENTS_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Run without its point stream, as held in app state.
+ */
+export const toSummary = (run: RunData): RunData => ({ ...run, points: [] });
+
+const stripPoints = (run: RunData) => {
+  const { points, ...summary } = run;
+  return summary;
+};
+
+export const loadRunSummaries = async (): Promise<RunData[]> => {
+  const db = await openDB();
+  const stored = await promisify(db.transaction(RUNS_STORE).objectStore(RUNS_STORE).getAll());
+  return stored
+    .map((s: Omit<RunData, 'points'>) => ({ ...s, points: [] }))
+    .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+};
+
+export const loadRunPoints = async (runId: string): Promise<TrackPoint[]> => {
+  const db = await openDB();
+  const stored = await promisify(db.transaction(POINTS_STORE).objectStore(POINTS_STORE).get(runId));
+  return stored?.points || [];
+};
+
+/**
+ * Writes runs with their points. Runs passed as summaries (no points)
+ * only update the summary and keep the stored stream.
+ */
+export const saveRuns = async (runs: RunData[]): Promise<void> => {
+  if (runs.length === 0) return;
+  const db = await openDB();
+  const tx = db.transaction([RUNS_STORE, POINTS_STORE], 'readwrite');
+  runs.forEach(run => {
+    tx.objectStore(RUNS_STORE).put(stripPoints(run));
+    if (run.points.length > 0) tx.objectStore(POINTS_STORE).put({ id: run.id, points: run.points });
+  });
+  await transactionDone(tx);
+};
+
+export const saveRun = (run: RunData) => saveRuns([run]);
+
+export const clearRuns = async (): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([RUNS_STORE, POINTS_STORE, SEGMENTS_STORE], 'readwrite');
+  tx.objectStore(RUNS_STORE).clear();
+  tx.objectStore(POINTS_STORE).clear();
+  tx.objectStore(SEGMENTS_STORE).clear();
+  await transactionDone(tx);
+};
+
+export const saveDemTile = async (tile: DemTile): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(DEM_STORE, 'readwrite');
+  tx.objectStore(DEM_STORE).put(tile);
+  await transactionDone(tx);
+};
+
+export const loadDemTiles = async (): Promise<DemTile[]> => {
+  const db = await openDB();
+  return promisify(db.transaction(DEM_STORE).objectStore(DEM_STORE).getAll());
+};
+
+/**
+ * Names of the stored tiles, without reading their (large) height data.
+ */
+export const listDemTiles = async (): Promise<string[]> => {
+  const db = await openDB();
+  const keys = await promisify(db.transaction(DEM_STORE).objectStore(DEM_STORE).getAllKeys());
+  return keys.map(String).sort();
+};
+
+export const deleteDemTile = async (name: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(DEM_STORE, 'readwrite');
+  tx.objectStore(DEM_STORE).delete(name);
+  await transactionDone(tx);
+};
+
+export const loadSegments = async (): Promise<Segment[]> => {
+  const db = await openDB();
+  const stored: Segment[] = await promisify(db.transaction(SEGMENTS_STORE).objectStore(SEGMENTS_STORE).getAll());
+  return stored.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+};
+
+export const saveSegments = async (segments: Segment[]): Promise<void> => {
+  if (segments.length === 0) return;
+  const db = await openDB();
+  const tx = db.transaction(SEGMENTS_STORE, 'readwrite');
+  segments.forEach(segment => tx.objectStore(SEGMENTS_STORE).put(segment));
+  await transactionDone(tx);
+};
+
+export const deleteSegment = async (segmentId: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(SEGMENTS_STORE, 'readwrite');
+  tx.objectStore(SEGMENTS_STORE).delete(segmentId);
+  await transactionDone(tx);
+};
+
+/**
+ * Restores Date fields of a run that went through JSON.
+ */
+export const reviveRun = (r: any): RunData => ({
+  ...r,
+  startTime: new Date(r.startTime),
+  points: (r.points || []).map((p: any) => ({ ...p, time: new Date(p.time) })),
+  laps: (r.laps || []).map((l: any) => ({ ...l, startTime: l.startTime ? new Date(l.startTime) : undefined }))
+});
+
+/**
+ * Every run with its point stream (used for full backups).
+ */
+export const loadAllRuns = async (): Promise<RunData[]> => {
+  const summaries = await loadRunSummaries();
+  return Promise.all(summaries.map(async s => ({ ...s, points: await loadRunPoints(s.id) })));
+};
+
+/**
+ * One-time move of the legacy `liquid_pro_runs` localStorage blob into
+ * IndexedDB. `prepare` lets the caller fill caches the old format lacked.
+ * The legacy key is only removed once the write has committed.
+ */
+export const migrateFromLocalStorage = async (prepare: (run: RunData) => RunData = r => r): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_RUNS_KEY);
+  if (!saved) return 0;
+
+  const runs: RunData[] = JSON.parse(saved).map((r: any) => prepare(reviveRun(r)));
+
+  await saveRuns(runs);
+  localStorage.removeItem(LEGACY_RUNS_KEY);
+  return runs.length;
+};
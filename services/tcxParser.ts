@@ -1,116 +1,80 @@
-
 import { RunData, TrackPoint, Lap } from '../types';
+import { buildRunData } from './runBuilder';
+import { parseXml, findAll, findFirst, findChild, textOf } from './xml';
 
 export const parseTCX = async (file: File): Promise<RunData> => {
   const text = await file.text();
-  const parser = new DOMParser();
-  const xml = parser.parseFromString(text, 'text/xml');
+  const xml = parseXml(text);
 
   const points: TrackPoint[] = [];
-  const trackpoints = xml.querySelectorAll('Trackpoint');
-
-  let totalAscent = 0;
-  let totalDescent = 0;
-  let lastAlt: number | null = null;
-  let maxHR = 0;
-  let hrSum = 0;
-  let hrCount = 0;
-  let movingTime = 0;
-  let maxPace = 0;
-  let lastDist = 0;
+  const trackpoints = findAll(xml, 'Trackpoint');
 
-  trackpoints.forEach((tp, i) => {
-    const time = new Date(tp.querySelector('Time')?.textContent || '');
-    const lat = parseFloat(tp.querySelector('LatitudeDegrees')?.textContent || '');
-    const lng = parseFloat(tp.querySelector('LongitudeDegrees')?.textContent || '');
-    const altitude = parseFloat(tp.querySelector('AltitudeMeters')?.textContent || '');
-    const distance = parseFloat(tp.querySelector('DistanceMeters')?.textContent || '');
-    const hr = parseInt(tp.querySelector('HeartRateBpm Value')?.textContent || '');
+  trackpoints.forEach(tp => {
+    const position = findChild(tp, 'Position');
+    const time = new Date(textOf(findChild(tp, 'Time')));
+    const lat = parseFloat(textOf(findChild(position, 'LatitudeDegrees')));
+    const lng = parseFloat(textOf(findChild(position, 'LongitudeDegrees')));
+    const altitude = parseFloat(textOf(findChild(tp, 'AltitudeMeters')));
+    const distance = parseFloat(textOf(findChild(tp, 'DistanceMeters')));
+    const hr = parseInt(textOf(findChild(findChild(tp, 'HeartRateBpm'), 'Value')));
+    // Garmin/COROS TPX extension; RunCadence is per foot like FIT
+    const tpx = findChild(findChild(tp, 'Extensions'), 'TPX');
+    const runCadence = parseFloat(textOf(findChild(tpx, 'RunCadence')));
+    const watts = parseFloat(textOf(findChild(tpx, 'Watts')));
+    const speed = parseFloat(textOf(findChild(tpx, 'Speed')));
+    // Running dynamics have no TPX field; our own exports carry them alongside
+    const dynamics = findChild(findChild(tp, 'Extensions'), 'RunningDynamics');
+    const verticalOscillation = parseFloat(textOf(findChild(dynamics, 'VerticalOscillation')));
+    const groundContactTime = parseFloat(textOf(findChild(dynamics, 'GroundContactTime')));
+    const strideLength = parseFloat(textOf(findChild(dynamics, 'StrideLength')));
 
-    const point: TrackPoint = { 
+    points.push({ 
       time, 
       lat: isNaN(lat) ? undefined : lat, 
       lng: isNaN(lng) ? undefined : lng, 
       altitude: isNaN(altitude) ? undefined : altitude, 
       distance: isNaN(distance) ? undefined : distance, 
-      hr: isNaN(hr) ? undefined : hr 
-    };
-    
-    if (i > 0) {
-      const prev = points[points.length - 1];
-      const timeDiff = (time.getTime() - prev.time.getTime()) / 1000;
-      const distDiff = (distance || 0) - (prev.distance || 0);
-
-      // Moving time threshold: if speed > 0.5 m/s
-      if (timeDiff > 0 && timeDiff < 15) {
-        if (distDiff / timeDiff > 0.5) {
-          movingTime += timeDiff;
-        }
-        
-        const currentPace = timeDiff / (distDiff / 1000);
-        if (currentPace > 120 && currentPace < 1200) { // filter outliers
-          if (maxPace === 0 || currentPace < maxPace) maxPace = currentPace;
-        }
-      }
-
-      if (!isNaN(altitude) && lastAlt !== null) {
-        const diff = altitude - lastAlt;
-        if (diff > 0) totalAscent += diff;
-        else if (diff < 0) totalDescent += Math.abs(diff);
-      }
-    }
-
-    if (!isNaN(altitude)) lastAlt = altitude;
-    if (!isNaN(hr)) {
-      maxHR = Math.max(maxHR, hr);
-      hrSum += hr;
-      hrCount++;
-    }
-    points.push(point);
+      hr: isNaN(hr) ? undefined : hr,
+      speed: isNaN(speed) ? undefined : speed,
+      cadence: isNaN(runCadence) ? undefined : Math.round(runCadence * 2),
+      power: isNaN(watts) ? undefined : watts,
+      verticalOscillation: isNaN(verticalOscillation) ? undefined : verticalOscillation,
+      groundContactTime: isNaN(groundContactTime) ? undefined : groundContactTime,
+      strideLength: isNaN(strideLength) ? undefined : strideLength
+    });
   });
 
-  const totalDistance = points.length > 0 ? (points[points.length - 1].distance || 0) : 0;
-  const startTime = points[0]?.time || new Date();
-  const endTime = points[points.length - 1]?.time || new Date();
-  const elapsedTime = (endTime.getTime() - startTime.getTime()) / 1000;
-
-  const avgHR = hrCount > 0 ? hrSum / hrCount : 0;
-  const avgPace = movingTime > 0 ? movingTime / (totalDistance / 1000) : 0;
-  
-  // Advanced Pro Calculations
-  const aerobicEfficiency = avgHR > 0 ? (totalDistance / hrSum) * 100 : 0; 
-  const movementRatio = elapsedTime > 0 ? (movingTime / elapsedTime) * 100 : 0;
-  const vam = movingTime > 0 ? (totalAscent / movingTime) * 3600 : 0;
+  const laps: Lap[] = [];
+  let calories = 0;
+  findAll(xml, 'Lap').forEach((lapEl, i) => {
+    const startTime = new Date(lapEl.attrs.StartTime || '');
+    const time = parseFloat(textOf(findChild(lapEl, 'TotalTimeSeconds')));
+    const distance = parseFloat(textOf(findChild(lapEl, 'DistanceMeters')));
+    const avgHR = parseInt(textOf(findChild(findChild(lapEl, 'AverageHeartRateBpm'), 'Value')));
+    const maxHR = parseInt(textOf(findChild(findChild(lapEl, 'MaximumHeartRateBpm'), 'Value')));
+    const intensity = textOf(findChild(lapEl, 'Intensity'));
+    // Our own exports keep warm-up and cool-down laps apart from active ones
+    const lapIntensity = textOf(findChild(findChild(lapEl, 'Extensions'), 'LapIntensity'));
+    calories += parseInt(textOf(findChild(lapEl, 'Calories'))) || 0;
 
-  // Intensity Factor (Simplified: Ratio to a generic 5:00/km threshold)
-  const thresholdPace = 300; 
-  const intensityFactor = avgPace > 0 ? thresholdPace / avgPace : 0;
+    laps.push({
+      id: i + 1,
+      startTime: isNaN(startTime.getTime()) ? undefined : startTime,
+      distance: isNaN(distance) ? 0 : distance,
+      time: isNaN(time) ? 0 : time,
+      avgPace: !isNaN(time) && distance > 0 ? time / (distance / 1000) : 0,
+      avgHR: isNaN(avgHR) ? 0 : avgHR,
+      maxHR: isNaN(maxHR) ? undefined : maxHR,
+      intensity: intensity === 'Resting' ? 'rest' : lapIntensity === 'warmup' || lapIntensity === 'cooldown' ? lapIntensity : 'active',
+      source: 'device'
+    });
+  });
 
-  return {
-    id: `run_${startTime.getTime()}`,
-    name: file.name.replace('.tcx', ''),
-    startTime,
-    points,
-    laps: [], // Optional: Lap logic omitted for brevity in parser update
-    summary: {
-      totalDistance,
-      elapsedTime,
-      movingTime,
-      avgHR: Math.round(avgHR),
-      maxHR,
-      totalAscent,
-      totalDescent,
-      avgPace,
-      maxPace,
-      calories: Math.round((totalDistance / 1000) * 70),
-      fitnessScore: Math.round((avgHR * (movingTime / 3600)) / 10),
-      intensityFactor,
-      variabilityIndex: 1.05, // Placeholder for normalized power/pace variability
-      aerobicEfficiency,
-      movementRatio,
-      vam,
-      // Fix: Add trainingEffect default value to match RunData interface
-      trainingEffect: 0
-    }
-  };
-};
\ No newline at end of file
+  const run = buildRunData(file.name, points, laps);
+  // Activity notes carry the run name in our own exports
+  const notes = textOf(findChild(findFirst(xml, 'Activity'), 'Notes'));
+  if (notes) run.name = notes;
+  // Device calories beat the distance-based estimate
+  if (calories > 0) run.summary.calories = calories;
+  return run;
+};
@@ -0,0 +1,48 @@
+import { RunData, ThresholdEstimate } from '../types';
+import { calculatePaceCurve } from './bestEfforts';
+
+// Effort length -> fraction of that effort's speed/HR sustainable for ~60 min
+const EFFORTS: { seconds: number; speedFactor: number; hrFactor: number }[] = [
+  { seconds: 20 * 60, speedFactor: 0.95, hrFactor: 0.95 },
+  { seconds: 30 * 60, speedFactor: 0.97, hrFactor: 0.98 },
+  { seconds: 40 * 60, speedFactor: 0.985, hrFactor: 1.0 },
+  { seconds: 60 * 60, speedFactor: 1.0, hrFactor: 1.0 },
+];
+
+// Only recent fitness is relevant when enough history exists
+const RECENT_DAYS = 120;
+
+/**
+ * Threshold Detection
+ * Scans runs for the best 20-60 minute efforts and converts each into an
+ * estimated lactate-threshold pace and LTHR. The strongest estimate wins.
+ */
+export const estimateThreshold = (runs: RunData[], now: Date = new Date()): ThresholdEstimate | null => {
+  const cutoff = now.getTime() - RECENT_DAYS * 24 * 60 * 60 * 1000;
+  const recent = runs.filter(r => r.startTime.getTime() >= cutoff);
+  const pool = recent.length > 0 ? recent : runs;
+
+  let best: ThresholdEstimate | null = null;
+  let bestSpeed = 0;
+
+  pool.forEach(run => {
+    // The mean-max curve already holds the best sustained effort per duration
+    const curve = run.paceCurve ?? calculatePaceCurve(run);
+    EFFORTS.forEach(effort => {
+      const found = curve.find(p => p.seconds === effort.seconds);
+      if (!found || found.pace <= 0) return;
+      const speed = (1000 / found.pace) * effort.speedFactor;
+      if (speed > bestSpeed) {
+        bestSpeed = speed;
+        best = {
+          pace: 1000 / speed,
+          hr: Math.round((found.hr || 0) * effort.hrFactor),
+          runId: run.id,
+          effortSeconds: effort.seconds
+        };
+      }
+    });
+  });
+
+  return best;
+};
@@ -0,0 +1,96 @@
+import { RunData, UserSettings, DailyLoad, LoadRiskFlag } from '../types';
+import { forEachHRSample } from './physiology';
+
+const CTL_DAYS = 42;
+const ATL_DAYS = 7;
+const ACUTE_WINDOW = 7;
+const CHRONIC_WINDOW = 28;
+// ACWR "sweet spot" band (Gabbett)
+export const ACWR_SAFE_MIN = 0.8;
+export const ACWR_SAFE_MAX = 1.3;
+const ACWR_HIGH_RISK = 1.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+/**
+ * Banister TRIMP
+ * Sums duration x HR reserve fraction weighted exponentially, so time at
+ * high HR costs far more than the same time easy. Returns arbitrary units.
+ */
+export const calculateTRIMP = (run: RunData, settings: UserSettings): number => {
+  const { maxHR, restingHR } = settings;
+  const hrReserve = maxHR - restingHR;
+  if (hrReserve <= 0) return 0;
+
+  let trimp = 0;
+  forEachHRSample(run, (avgHr, duration) => {
+    const hrr = Math.max(0, Math.min(1, (avgHr - restingHR) / hrReserve));
+    trimp += (duration / 60) * hrr * 0.64 * Math.exp(1.92 * hrr);
+  });
+  return Math.round(trimp);
+};
+
+/**
+ * Daily training load series from the first run until today.
+ * CTL/ATL are exponentially weighted averages of daily TRIMP,
+ * ACWR compares the 7-day and 28-day rolling averages.
+ */
+export const buildLoadSeries = (runs: RunData[], settings: UserSettings, until: Date = new Date()): DailyLoad[] => {
+  if (runs.length === 0) return [];
+
+  const loadByDay = new Map<number, number>();
+  runs.forEach(run => {
+    const day = startOfDay(run.startTime).getTime();
+    const trimp = run.summary.trimp ?? calculateTRIMP(run, settings);
+    loadByDay.set(day, (loadByDay.get(day) || 0) + trimp);
+  });
+
+  const first = Math.min(...Array.from(loadByDay.keys()));
+  const last = Math.max(startOfDay(until).getTime(), ...Array.from(loadByDay.keys()));
+
+  const series: DailyLoad[] = [];
+  const history: number[] = [];
+  let ctl = 0;
+  let atl = 0;
+
+  for (let t = first; t <= last; t = startOfDay(new Date(t + DAY_MS * 1.5)).getTime()) {
+    const load = loadByDay.get(t) || 0;
+    // Form is judged against yesterday's fitness and fatigue
+    const tsb = ctl - atl;
+    ctl += (load - ctl) / CTL_DAYS;
+    atl += (load - atl) / ATL_DAYS;
+
+    history.push(load);
+    const acute = history.slice(-ACUTE_WINDOW).reduce((a, b) => a + b, 0) / ACUTE_WINDOW;
+    const chronic = history.slice(-CHRONIC_WINDOW).reduce((a, b) => a + b, 0) / CHRONIC_WINDOW;
+
+    series.push({
+      date: new Date(t),
+      load,
+      ctl,
+      atl,
+      tsb,
+      acwr: chronic > 0 ? acute / chronic : 0
+    });
+  }
+
+  return series;
+};
+
+/**
+ * Injury-risk flags for days where ACWR leaves the safe band.
+ * Ratios are only meaningful once a full chronic window of history exists.
+ */
+export const getLoadRiskFlags = (series: DailyLoad[]): LoadRiskFlag[] =>
+  series.slice(CHRONIC_WINDOW - 1).reduce<LoadRiskFlag[]>((flags, day) => {
+    if (day.acwr > ACWR_HIGH_RISK) {
+      flags.push({ date: day.date, acwr: day.acwr, level: 'high', message: 'Load spike: high injury risk' });
+    } else if (day.acwr > ACWR_SAFE_MAX) {
+      flags.push({ date: day.date, acwr: day.acwr, level: 'elevated', message: 'Load rising faster than fitness' });
+    } else if (day.acwr > 0 && day.acwr < ACWR_SAFE_MIN) {
+      flags.push({ date: day.date, acwr: day.acwr, level: 'low', message: 'Underloading: fitness may decline' });
+    }
+    return flags;
+  }, []);
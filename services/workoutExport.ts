@@ -0,0 +1,322 @@
+import { PlanSession, UserSettings, WorkoutStep } from '../types';
+import { calculateZones } from './physiology';
+import { isRepeat } from './workouts';
+import { escapeXml } from './xml';
+import { createZip } from './zip';
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600;
+const FIT_PROFILE_VERSION = 2100;
+
+// Global message numbers
+const MESG_FILE_ID = 0;
+const MESG_WORKOUT = 26;
+const MESG_WORKOUT_STEP = 27;
+
+// Base types
+const ENUM = 0x00;
+const UINT16 = 0x84;
+const UINT32 = 0x86;
+const UINT32Z = 0x8C;
+const STRING = 0x07;
+
+// Profile enums
+const FILE_WORKOUT = 5;
+const MANUFACTURER_DEVELOPMENT = 255;
+const SPORT_RUNNING = 1;
+const DURATION = { time: 0, distance: 1, open: 5, repeat: 6 };
+const TARGET = { speed: 0, heartRate: 1, open: 2, power: 4 };
+const INTENSITY: Record<WorkoutStep['kind'], number> = { work: 0, steady: 0, recovery: 4, warmup: 2, cooldown: 3 };
+
+const STEP_NAMES: Record<WorkoutStep['kind'], string> = {
+  warmup: 'Warm-up',
+  work: 'Run',
+  recovery: 'Recovery',
+  cooldown: 'Cool-down',
+  steady: 'Steady'
+};
+
+const WKT_NAME_SIZE = 32;
+const STEP_NAME_SIZE = 16;
+// TCX names are limited to 15 characters by the schema
+const TCX_NAME_LENGTH = 15;
+
+interface FitField {
+  num: number;
+  baseType: number;
+  size: number;
+  value?: number | string; // undefined writes the type's invalid value
+}
+
+interface FitStep {
+  name: string;
+  durationType: number;
+  durationValue?: number;
+  targetType?: number;
+  targetValue?: number;
+  low?: number;
+  high?: number;
+  intensity?: number;
+}
+
+const CRC_TABLE = [0x0000, 0xCC01, 0xD801, 0x1400, 0xF001, 0x3C00, 0x2800, 0xE401, 0xA001, 0x6C00, 0x7800, 0xB401, 0x5000, 0x9C01, 0x8801, 0x4400];
+
+const fitCrc = (bytes: Uint8Array, crc = 0): number => {
+  for (const byte of bytes) {
+    let tmp = CRC_TABLE[crc & 0xF];
+    crc = ((crc >> 4) & 0x0FFF) ^ tmp ^ CRC_TABLE[byte & 0xF];
+    tmp = CRC_TABLE[crc & 0xF];
+    crc = ((crc >> 4) & 0x0FFF) ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xF];
+  }
+  return crc;
+};
+
+const writeValue = (view: DataView, offset: number, field: FitField) => {
+  const { baseType, size, value } = field;
+  if (baseType === STRING) {
+    // Null-padded UTF-8, cut on a character boundary
+    let bytes = new TextEncoder().encode(String(value ?? ''));
+    let chars = Array.from(String(value ?? ''));
+    while (bytes.length > size - 1) {
+      chars = chars.slice(0, -1);
+      bytes = new TextEncoder().encode(chars.join(''));
+    }
+    bytes.forEach((b, i) => view.setUint8(offset + i, b));
+    return;
+  }
+  const v = value as number | undefined;
+  if (baseType === ENUM) view.setUint8(offset, v ?? 0xFF);
+  else if (baseType === UINT16) view.setUint16(offset, v ?? 0xFFFF, true);
+  else if (baseType === UINT32) view.setUint32(offset, v ?? 0xFFFFFFFF, true);
+  else if (baseType === UINT32Z) view.setUint32(offset, v ?? 0, true);
+};
+
+/**
+ * Encodes messages as a FIT file. Each global message gets one local type,
+ * defined before its first use, so every message of a type must carry the
+ * same fields.
+ */
+const encodeFit = (messages: { global: number; fields: FitField[] }[]): Uint8Array<ArrayBuffer> => {
+  const chunks: Uint8Array[] = [];
+  const locals = new Map<number, number>();
+
+  messages.forEach(({ global, fields }) => {
+    if (!locals.has(global)) {
+      const local = locals.size;
+      locals.set(global, local);
+      const def = new DataView(new ArrayBuffer(6 + fields.length * 3));
+      def.setUint8(0, 0x40 | local);
+      def.setUint8(2, 0); // little-endian
+      def.setUint16(3, global, true);
+      def.setUint8(5, fields.length);
+      fields.forEach((f, i) => {
+        def.setUint8(6 + i * 3, f.num);
+        def.setUint8(7 + i * 3, f.size);
+        def.setUint8(8 + i * 3, f.baseType);
+      });
+      chunks.push(new Uint8Array(def.buffer));
+    }
+    const data = new DataView(new ArrayBuffer(1 + fields.reduce((a, f) => a + f.size, 0)));
+    data.setUint8(0, locals.get(global)!);
+    let offset = 1;
+    fields.forEach(f => {
+      writeValue(data, offset, f);
+      offset += f.size;
+    });
+    chunks.push(new Uint8Array(data.buffer));
+  });
+
+  const dataSize = chunks.reduce((a, c) => a + c.length, 0);
+  const file = new Uint8Array(14 + dataSize + 2);
+  const header = new DataView(file.buffer);
+  header.setUint8(0, 14);
+  header.setUint8(1, 0x20);
+  header.setUint16(2, FIT_PROFILE_VERSION, true);
+  header.setUint32(4, dataSize, true);
+  file.set([0x2E, 0x46, 0x49, 0x54], 8); // ".FIT"
+  header.setUint16(12, fitCrc(file.subarray(0, 12)), true);
+
+  let offset = 14;
+  chunks.forEach(c => {
+    file.set(c, offset);
+    offset += c.length;
+  });
+  header.setUint16(offset, fitCrc(file.subarray(0, offset)), true);
+  return file;
+};
+
+const zoneRange = (zone: number, settings: UserSettings) => {
+  const zones = calculateZones(settings);
+  return zones[Math.min(zones.length, Math.max(1, zone)) - 1];
+};
+
+const toFitStep = (step: WorkoutStep, settings: UserSettings): FitStep => {
+  const fit: FitStep = { name: STEP_NAMES[step.kind], durationType: DURATION.open, targetType: TARGET.open, targetValue: 0, intensity: INTENSITY[step.kind] };
+  if (step.durationType === 'time' && step.durationValue) {
+    fit.durationType = DURATION.time;
+    fit.durationValue = Math.round(step.durationValue * 1000);
+  } else if (step.durationType === 'distance' && step.durationValue) {
+    fit.durationType = DURATION.distance;
+    fit.durationValue = Math.round(step.durationValue * 100);
+  }
+
+  // Custom ranges: bpm are offset by 100 and watts by 1000 to tell them from zone numbers
+  if (step.targetType === 'hrZone' && step.targetZone) {
+    const zone = zoneRange(step.targetZone, settings);
+    Object.assign(fit, { targetType: TARGET.heartRate, low: zone.min + 100, high: zone.max + 100 });
+  } else if (step.targetType === 'pace' && step.targetLow && step.targetHigh) {
+    // Slower pace is the lower speed, in mm/s
+    Object.assign(fit, { targetType: TARGET.speed, low: Math.round(1e6 / Math.max(step.targetLow, step.targetHigh)), high: Math.round(1e6 / Math.min(step.targetLow, step.targetHigh)) });
+  } else if (step.targetType === 'power' && step.targetLow && step.targetHigh) {
+    Object.assign(fit, { targetType: TARGET.power, low: step.targetLow + 1000, high: step.targetHigh + 1000 });
+  }
+  return fit;
+};
+
+/**
+ * FIT workout steps; a repeat block becomes its steps followed by a
+ * "repeat until steps complete" step pointing back at the first of them.
+ */
+const toFitSteps = (session: PlanSession, settings: UserSettings): FitStep[] => {
+  const steps: FitStep[] = [];
+  session.steps.forEach(item => {
+    if (!isRepeat(item)) {
+      steps.push(toFitStep(item, settings));
+      return;
+    }
+    const first = steps.length;
+    item.steps.forEach(s => steps.push(toFitStep(s, settings)));
+    steps.push({ name: 'Repeat', durationType: DURATION.repeat, durationValue: first, targetValue: item.count });
+  });
+  return steps;
+};
+
+/**
+ * FIT Workout
+ * Encodes a plan session as a FIT workout file that watches can load,
+ * with HR-zone targets resolved to the athlete's bpm ranges.
+ */
+export const buildFitWorkout = (session: PlanSession, settings: UserSettings, created: Date = new Date()): Uint8Array<ArrayBuffer> => {
+  const steps = toFitSteps(session, settings);
+  return encodeFit([
+    {
+      global: MESG_FILE_ID,
+      fields: [
+        { num: 0, baseType: ENUM, size: 1, value: FILE_WORKOUT },
+        { num: 1, baseType: UINT16, size: 2, value: MANUFACTURER_DEVELOPMENT },
+        { num: 2, baseType: UINT16, size: 2, value: 0 },
+        { num: 3, baseType: UINT32Z, size: 4, value: created.getTime() % 0xFFFFFFFF || 1 },
+        { num: 4, baseType: UINT32, size: 4, value: Math.round(created.getTime() / 1000) - FIT_EPOCH_OFFSET }
+      ]
+    },
+    {
+      global: MESG_WORKOUT,
+      fields: [
+        { num: 4, baseType: ENUM, size: 1, value: SPORT_RUNNING },
+        { num: 6, baseType: UINT16, size: 2, value: steps.length },
+        { num: 8, baseType: STRING, size: WKT_NAME_SIZE, value: session.title }
+      ]
+    },
+    ...steps.map((step, i) => ({
+      global: MESG_WORKOUT_STEP,
+      fields: [
+        { num: 254, baseType: UINT16, size: 2, value: i },
+        { num: 0, baseType: STRING, size: STEP_NAME_SIZE, value: step.name },
+        { num: 1, baseType: ENUM, size: 1, value: step.durationType },
+        { num: 2, baseType: UINT32, size: 4, value: step.durationValue },
+        { num: 3, baseType: ENUM, size: 1, value: step.targetType },
+        { num: 4, baseType: UINT32, size: 4, value: step.targetValue },
+        { num: 5, baseType: UINT32, size: 4, value: step.low },
+        { num: 6, baseType: UINT32, size: 4, value: step.high },
+        { num: 7, baseType: ENUM, size: 1, value: step.intensity }
+      ]
+    }))
+  ]);
+};
+
+const tcxStep = (step: WorkoutStep, id: number, settings: UserSettings, tag: 'Step' | 'Child', indent: string): string => {
+  let duration = '<Duration xsi:type="UserInitiated_t"/>';
+  if (step.durationType === 'time' && step.durationValue) duration = `<Duration xsi:type="Time_t"><Seconds>${Math.round(step.durationValue)}</Seconds></Duration>`;
+  else if (step.durationType === 'distance' && step.durationValue) duration = `<Duration xsi:type="Distance_t"><Meters>${Math.round(step.durationValue)}</Meters></Duration>`;
+
+  // TCX has no power targets; those steps go out untargeted
+  let target = '<Target xsi:type="None_t"/>';
+  if (step.targetType === 'hrZone' && step.targetZone) {
+    const zone = zoneRange(step.targetZone, settings);
+    target = `<Target xsi:type="HeartRate_t"><HeartRateZone xsi:type="CustomHeartRateZone_t">`
+      + `<Low xsi:type="HeartRateInBeatsPerMinute_t"><Value>${zone.min}</Value></Low>`
+      + `<High xsi:type="HeartRateInBeatsPerMinute_t"><Value>${zone.max}</Value></High></HeartRateZone></Target>`;
+  } else if (step.targetType === 'pace' && step.targetLow && step.targetHigh) {
+    const low = 1000 / Math.max(step.targetLow, step.targetHigh);
+    const high = 1000 / Math.min(step.targetLow, step.targetHigh);
+    target = `<Target xsi:type="Speed_t"><SpeedZone xsi:type="CustomSpeedZone_t"><ViewAs>Pace</ViewAs>`
+      + `<LowInMetersPerSecond>${low.toFixed(3)}</LowInMetersPerSecond><HighInMetersPerSecond>${high.toFixed(3)}</HighInMetersPerSecond></SpeedZone></Target>`;
+  }
+
+  return [
+    `${indent}<${tag} xsi:type="Step_t">`,
+    `${indent}  <StepId>${id}</StepId>`,
+    `${indent}  <Name>${escapeXml(STEP_NAMES[step.kind].slice(0, TCX_NAME_LENGTH))}</Name>`,
+    `${indent}  ${duration}`,
+    `${indent}  <Intensity>${step.kind === 'recovery' ? 'Resting' : 'Active'}</Intensity>`,
+    `${indent}  ${target}`,
+    `${indent}</${tag}>`
+  ].join('\n');
+};
+
+const tcxWorkout = (session: PlanSession, settings: UserSettings, scheduledOn?: Date): string => {
+  let nextId = 1;
+  const steps = session.steps.map(item => {
+    if (!isRepeat(item)) return tcxStep(item, nextId++, settings, 'Step', '      ');
+    const id = nextId++;
+    return [
+      `      <Step xsi:type="Repeat_t">`,
+      `        <StepId>${id}</StepId>`,
+      `        <Repetitions>${item.count}</Repetitions>`,
+      ...item.steps.map(s => tcxStep(s, nextId++, settings, 'Child', '        ')),
+      `      </Step>`
+    ].join('\n');
+  });
+
+  const date = scheduledOn
+    ? `${scheduledOn.getFullYear()}-${String(scheduledOn.getMonth() + 1).padStart(2, '0')}-${String(scheduledOn.getDate()).padStart(2, '0')}`
+    : null;
+  return [
+    `    <Workout Sport="Running">`,
+    `      <Name>${escapeXml(session.title.slice(0, TCX_NAME_LENGTH))}</Name>`,
+    ...steps,
+    ...(date ? [`      <ScheduledOn>${date}</ScheduledOn>`] : []),
+    ...(session.notes ? [`      <Notes>${escapeXml(session.notes)}</Notes>`] : []),
+    `    </Workout>`
+  ].join('\n');
+};
+
+/**
+ * TCX Workouts
+ * One `<Workout>` per session in a single TrainingCenterDatabase file,
+ * scheduled on the given dates where known.
+ */
+export const buildTcxWorkouts = (sessions: { session: PlanSession; date?: Date }[], settings: UserSettings): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+  '  <Workouts>',
+  ...sessions.map(s => tcxWorkout(s.session, settings, s.date)),
+  '  </Workouts>',
+  '</TrainingCenterDatabase>',
+  ''
+].join('\n');
+
+export const fileSlug = (name: string) => name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'workout';
+
+export const workoutFileName = (session: PlanSession, ext: string, index?: number) =>
+  `${index !== undefined ? `${String(index + 1).padStart(2, '0')}-` : ''}${fileSlug(session.title)}.${ext}`;
+
+/**
+ * ZIP bundle for a week or a whole plan: a FIT workout per session plus
+ * one TCX file holding all of them.
+ */
+export const buildWorkoutBundle = (name: string, sessions: { session: PlanSession; date?: Date }[], settings: UserSettings): Blob =>
+  createZip([
+    ...sessions.map((s, i) => ({ name: workoutFileName(s.session, 'fit', i), data: buildFitWorkout(s.session, settings) })),
+    { name: `${name}.tcx`, data: buildTcxWorkouts(sessions, settings) }
+  ]);
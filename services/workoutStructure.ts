@@ -0,0 +1,212 @@
+import { RunData, TrackPoint, PlanSession, WorkoutSegment, WorkoutStructure } from '../types';
+import { isRepeat } from './workouts';
+
+// Segments shorter than this are treated as noise and absorbed by neighbours
+const MIN_SEGMENT_SECONDS = 20;
+// Rolling window used to smooth the intensity signal
+const SMOOTHING_SECONDS = 20;
+// Fast and slow clusters must differ by at least this fraction to count as intervals
+const MIN_CLUSTER_SEPARATION = 0.2;
+
+interface Block {
+  fast: boolean;
+  startIdx: number;
+  endIdx: number;
+}
+
+const seconds = (a: TrackPoint, b: TrackPoint) => (b.time.getTime() - a.time.getTime()) / 1000;
+
+/**
+ * Intensity signal per point: rolling speed when the track has distance,
+ * otherwise heart rate (treadmill runs without a footpod).
+ */
+const getIntensitySignal = (points: TrackPoint[]): number[] | null => {
+  const hasDistance = points.some(p => (p.distance || 0) > 0);
+  const hasHR = points.some(p => p.hr !== undefined);
+  if (!hasDistance && !hasHR) return null;
+
+  // Centred window so rep boundaries don't lag behind the actual change
+  const half = SMOOTHING_SECONDS / 2;
+  const signal: number[] = [];
+  let j = 0;
+  let k = 0;
+  points.forEach((p, i) => {
+    while (j < i && seconds(points[j], p) > half) j++;
+    if (k < i) k = i;
+    while (k < points.length - 1 && seconds(p, points[k + 1]) <= half) k++;
+    if (hasDistance) {
+      const dt = seconds(points[j], points[k]);
+      signal.push(dt > 0 ? ((points[k].distance || 0) - (points[j].distance || 0)) / dt : 0);
+    } else {
+      const hrs = points.slice(j, k + 1).filter(w => w.hr !== undefined);
+      signal.push(hrs.length > 0 ? hrs.reduce((a, w) => a + w.hr!, 0) / hrs.length : 0);
+    }
+  });
+  return signal;
+};
+
+/**
+ * Two-means split of the signal into a slow and a fast cluster.
+ * Returns null when the clusters are too close to be a structured session.
+ */
+const findThreshold = (signal: number[]): number | null => {
+  const values = signal.filter(v => v > 0).sort((a, b) => a - b);
+  if (values.length < 10) return null;
+
+  let lo = values[Math.floor(values.length * 0.1)];
+  let hi = values[Math.floor(values.length * 0.9)];
+  for (let iter = 0; iter < 10; iter++) {
+    const mid = (lo + hi) / 2;
+    const slow = values.filter(v => v < mid);
+    const fast = values.filter(v => v >= mid);
+    if (slow.length === 0 || fast.length === 0) return null;
+    lo = slow.reduce((a, b) => a + b, 0) / slow.length;
+    hi = fast.reduce((a, b) => a + b, 0) / fast.length;
+  }
+
+  if (hi <= 0 || (hi - lo) / hi < MIN_CLUSTER_SEPARATION) return null;
+  return (lo + hi) / 2;
+};
+
+const mergeAdjacent = (blocks: Block[]): Block[] =>
+  blocks.reduce<Block[]>((acc, b) => {
+    const last = acc[acc.length - 1];
+    if (last && last.fast === b.fast) last.endIdx = b.endIdx;
+    else acc.push({ ...b });
+    return acc;
+  }, []);
+
+const toBlocks = (points: TrackPoint[], signal: number[], threshold: number): Block[] => {
+  let blocks = mergeAdjacent(signal.map((v, i) => ({ fast: v >= threshold, startIdx: i, endIdx: i })));
+
+  // Absorb the shortest noise block into its neighbours until all blocks are long enough
+  while (blocks.length > 1) {
+    let shortest = -1;
+    let shortestDuration = Infinity;
+    blocks.forEach((b, i) => {
+      const d = seconds(points[b.startIdx], points[b.endIdx]);
+      if (d < MIN_SEGMENT_SECONDS && d < shortestDuration) {
+        shortest = i;
+        shortestDuration = d;
+      }
+    });
+    if (shortest === -1) break;
+    blocks[shortest].fast = !blocks[shortest].fast;
+    blocks = mergeAdjacent(blocks);
+  }
+
+  // Consecutive blocks share their boundary point so no time is lost between them
+  return blocks.map((b, i) => ({ ...b, startIdx: i === 0 ? b.startIdx : blocks[i - 1].endIdx }));
+};
+
+/**
+ * Device laps marked as rest already describe the structure. Only active
+ * laps are work; warm-up and cool-down laps are not reps.
+ */
+const blocksFromLaps = (run: RunData): Block[] | null => {
+  const laps = run.laps.filter(l => l.startTime);
+  if (!laps.some(l => l.intensity === 'rest') || laps.length < 2) return null;
+
+  return laps.map((lap, i) => {
+    const start = lap.startTime!.getTime();
+    const next = laps[i + 1]?.startTime;
+    const end = next ? next.getTime() : start + lap.time * 1000;
+    const startIdx = Math.max(0, run.points.findIndex(p => p.time.getTime() >= start));
+    let endIdx = run.points.findIndex(p => p.time.getTime() >= end);
+    if (endIdx === -1) endIdx = run.points.length - 1;
+    return { fast: !lap.intensity || lap.intensity === 'active', startIdx, endIdx };
+  });
+};
+
+const describeBlock = (points: TrackPoint[], block: Block): Omit<WorkoutSegment, 'type'> => {
+  const pts = points.slice(block.startIdx, block.endIdx + 1);
+  const first = pts[0];
+  const last = pts[pts.length - 1];
+  const duration = seconds(first, last);
+  const distance = (last.distance || 0) - (first.distance || 0);
+  const hrs = pts.filter(p => p.hr !== undefined);
+  return {
+    startIdx: block.startIdx,
+    endIdx: block.endIdx,
+    duration,
+    distance,
+    avgPace: distance > 0 ? duration / (distance / 1000) : 0,
+    avgHR: hrs.length > 0 ? Math.round(hrs.reduce((a, p) => a + p.hr!, 0) / hrs.length) : 0
+  };
+};
+
+const steadyStructure = (points: TrackPoint[]): WorkoutStructure => ({
+  isInterval: false,
+  segments: points.length > 1 ? [{ type: 'steady', ...describeBlock(points, { fast: false, startIdx: 0, endIdx: points.length - 1 }) }] : [],
+  reps: { count: 0, meanPace: 0, meanDistance: 0, meanDuration: 0, hrDrift: 0, recoveryHrDrop: 0 }
+});
+
+/**
+ * Workout Structure Detection
+ * Segments the track into warm-up, work reps, recoveries and cool-down
+ * from pace (or HR) changes, and summarizes the reps.
+ */
+export const detectWorkoutStructure = (run: RunData): WorkoutStructure => {
+  const points = run.points;
+  if (points.length < 10) return steadyStructure(points);
+
+  let blocks = blocksFromLaps(run);
+  if (!blocks) {
+    const signal = getIntensitySignal(points);
+    const threshold = signal ? findThreshold(signal) : null;
+    if (!signal || threshold === null) return steadyStructure(points);
+    blocks = toBlocks(points, signal, threshold);
+  }
+
+  const workIdx = blocks.map((b, i) => (b.fast ? i : -1)).filter(i => i !== -1);
+  if (workIdx.length < 2) return steadyStructure(points);
+
+  const firstWork = workIdx[0];
+  const lastWork = workIdx[workIdx.length - 1];
+  const segments: WorkoutSegment[] = blocks.map((b, i) => ({
+    type: b.fast ? 'work' : i < firstWork ? 'warmup' : i > lastWork ? 'cooldown' : 'recovery',
+    ...describeBlock(points, b)
+  }));
+
+  const reps = segments.filter(s => s.type === 'work');
+  const recoveries = segments.filter(s => s.type === 'recovery');
+  const mean = (vals: number[]) => (vals.length > 0 ? vals.reduce((a, b) => a + b, 0) / vals.length : 0);
+
+  const recoveryDrops = recoveries.map(seg => {
+    const hrs = points.slice(seg.startIdx, seg.endIdx + 1).filter(p => p.hr !== undefined).map(p => p.hr!);
+    return hrs.length > 1 ? hrs[0] - Math.min(...hrs) : 0;
+  });
+
+  const repDistance = reps.reduce((a, r) => a + r.distance, 0);
+  const repDuration = reps.reduce((a, r) => a + r.duration, 0);
+
+  return {
+    isInterval: true,
+    segments,
+    reps: {
+      count: reps.length,
+      meanPace: repDistance > 0 ? repDuration / (repDistance / 1000) : 0,
+      meanDistance: mean(reps.map(r => r.distance)),
+      meanDuration: mean(reps.map(r => r.duration)),
+      hrDrift: reps[0].avgHR && reps[reps.length - 1].avgHR ? reps[reps.length - 1].avgHR - reps[0].avgHR : 0,
+      recoveryHrDrop: mean(recoveryDrops)
+    }
+  };
+};
+
+/**
+ * Expected rep structure from a session's steps: the first repeat block
+ * with a work step gives the rep count and length. Returns null for
+ * continuous sessions.
+ */
+export const getExpectedStructure = (session: PlanSession): { reps?: number; repDistance?: number; repDuration?: number } | null => {
+  for (const item of session.steps) {
+    if (!isRepeat(item)) continue;
+    const work = item.steps.find(s => s.kind === 'work');
+    if (!work) continue;
+    if (work.durationType === 'distance') return { reps: item.count, repDistance: work.durationValue };
+    if (work.durationType === 'time') return { reps: item.count, repDuration: work.durationValue };
+    return { reps: item.count };
+  }
+  return null;
+};
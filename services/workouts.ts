@@ -0,0 +1,95 @@
+import { TrainingPlan, PlanSession, WorkoutItem, WorkoutStep, WorkoutRepeat, WorkoutSegmentType } from '../types';
+
+const STEP_LABELS: Record<WorkoutSegmentType, string> = {
+  warmup: 'warm-up',
+  work: 'run',
+  recovery: 'recovery',
+  cooldown: 'cool-down',
+  steady: 'steady'
+};
+
+export const isRepeat = (item: WorkoutItem): item is WorkoutRepeat => item.kind === 'repeat';
+
+export const createStep = (kind: WorkoutSegmentType = 'work'): WorkoutStep => ({
+  kind,
+  durationType: 'time',
+  durationValue: kind === 'recovery' ? 90 : 300,
+  targetType: kind === 'work' ? 'hrZone' : 'none',
+  targetZone: kind === 'work' ? 4 : undefined
+});
+
+export const createRepeat = (): WorkoutRepeat => ({
+  kind: 'repeat',
+  count: 4,
+  steps: [{ ...createStep('work'), durationType: 'distance', durationValue: 400 }, createStep('recovery')]
+});
+
+/**
+ * Steps in the order they are run, repeat blocks expanded.
+ */
+export const flattenWorkout = (items: WorkoutItem[]): WorkoutStep[] =>
+  items.flatMap(item => (isRepeat(item) ? Array.from({ length: Math.max(0, item.count) }, () => item.steps).flat() : [item]));
+
+const formatAmount = (step: WorkoutStep): string => {
+  const value = step.durationValue || 0;
+  if (step.durationType === 'open') return '';
+  if (step.durationType === 'distance') return value >= 1000 ? `${+(value / 1000).toFixed(2)}km ` : `${value}m `;
+  return value < 120 || value % 60 !== 0 ? `${value}s ` : `${value / 60} min `;
+};
+
+const formatTarget = (step: WorkoutStep, formatPace: (secPerKm: number) => string): string => {
+  if (step.targetType === 'hrZone' && step.targetZone) return ` Z${step.targetZone}`;
+  if (step.targetType === 'pace' && step.targetLow && step.targetHigh) return ` @ ${formatPace(step.targetLow)}-${formatPace(step.targetHigh)}`;
+  if (step.targetType === 'power' && step.targetLow && step.targetHigh) return ` @ ${step.targetLow}-${step.targetHigh}W`;
+  return '';
+};
+
+export const describeStep = (step: WorkoutStep, formatPace: (secPerKm: number) => string): string =>
+  `${formatAmount(step)}${STEP_LABELS[step.kind]}${formatTarget(step, formatPace)}`;
+
+/**
+ * One-line summary of a session's steps, e.g.
+ * "10 min warm-up Z2, 4x (400m run Z4 / 90s recovery), 10 min cool-down".
+ */
+export const describeWorkout = (items: WorkoutItem[], formatPace: (secPerKm: number) => string): string =>
+  items
+    .map(item => (isRepeat(item)
+      ? `${item.count}x (${item.steps.map(s => describeStep(s, formatPace)).join(' / ')})`
+      : describeStep(item, formatPace)))
+    .join(', ');
+
+export const createSession = (plan: TrainingPlan): PlanSession => {
+  const lastDay = plan.sessions.reduce((max, s) => Math.max(max, s.day), 0);
+  return {
+    id: `${plan.id}_${Date.now()}`,
+    day: lastDay + 2,
+    title: 'New Session',
+    steps: [{ ...createStep('steady'), durationValue: 1800, targetType: 'hrZone', targetZone: 2 }],
+    targetDuration: 30,
+    targetZone: 2
+  };
+};
+
+export const createPlan = (): TrainingPlan => {
+  const plan: TrainingPlan = { id: `plan_${Date.now()}`, name: 'My Plan', custom: true, sessions: [] };
+  return { ...plan, sessions: [{ ...createSession(plan), day: 1 }] };
+};
+
+/**
+ * Editable copy of a plan. Sessions get new ids so completions of the
+ * original don't carry over.
+ */
+export const duplicatePlan = (plan: TrainingPlan, name = `${plan.name} (Copy)`): TrainingPlan => {
+  const id = `plan_${Date.now()}`;
+  return {
+    id,
+    name,
+    custom: true,
+    sessions: plan.sessions.map((s, i) => ({
+      ...s,
+      id: `${id}_${i + 1}`,
+      steps: JSON.parse(JSON.stringify(s.steps)),
+      linkedRunId: undefined
+    }))
+  };
+};
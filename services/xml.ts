@@ -0,0 +1,139 @@
+import { ActivityParseError } from './errors';
+
+/**
+ * Minimal XML reader for activity files.
+ * DOMParser is not available inside Web Workers, so TCX/GPX parsing uses
+ * this instead. Element names are stored without namespace prefix.
+ */
+export interface XmlNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeEntities = (s: string) =>
+  s.indexOf('&') === -1 ? s : s.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, e: string) => {
+    if (e[0] === '#') {
+      const code = e[1] === 'x' || e[1] === 'X' ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return isNaN(code) ? m : String.fromCodePoint(code);
+    }
+    return ENTITIES[e] ?? m;
+  });
+
+const localName = (qName: string) => {
+  const idx = qName.indexOf(':');
+  return idx === -1 ? qName : qName.slice(idx + 1);
+};
+
+const ATTR_RE = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+export const parseXml = (text: string): XmlNode => {
+  const root: XmlNode = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack: XmlNode[] = [root];
+  let pos = 0;
+
+  while (pos < text.length) {
+    const lt = text.indexOf('<', pos);
+    if (lt === -1) break;
+
+    if (lt > pos) stack[stack.length - 1].text += decodeEntities(text.slice(pos, lt));
+
+    if (text.startsWith('<!--', lt)) {
+      const end = text.indexOf('-->', lt + 4);
+      pos = end === -1 ? text.length : end + 3;
+      continue;
+    }
+    if (text.startsWith('<![CDATA[', lt)) {
+      const end = text.indexOf(']]>', lt + 9);
+      stack[stack.length - 1].text += text.slice(lt + 9, end === -1 ? text.length : end);
+      pos = end === -1 ? text.length : end + 3;
+      continue;
+    }
+    if (text[lt + 1] === '?' || text[lt + 1] === '!') {
+      const end = text.indexOf('>', lt);
+      pos = end === -1 ? text.length : end + 1;
+      continue;
+    }
+
+    const gt = text.indexOf('>', lt);
+    if (gt === -1) throw new ActivityParseError('MALFORMED_FILE', 'Malformed XML: unterminated tag.');
+    const tag = text.slice(lt + 1, gt);
+    pos = gt + 1;
+
+    if (tag[0] === '/') {
+      const name = localName(tag.slice(1).trim());
+      // Pop back to the matching element; tolerate stray closing tags
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === name) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const nameEnd = body.search(/\s/);
+    const qName = nameEnd === -1 ? body : body.slice(0, nameEnd);
+    const attrs: Record<string, string> = {};
+    if (nameEnd !== -1) {
+      let m: RegExpExecArray | null;
+      ATTR_RE.lastIndex = 0;
+      while ((m = ATTR_RE.exec(body.slice(nameEnd))) !== null) {
+        attrs[localName(m[1])] = decodeEntities(m[3] ?? m[4]);
+      }
+    }
+
+    const node: XmlNode = { name: localName(qName), attrs, children: [], text: '' };
+    stack[stack.length - 1].children.push(node);
+    if (!selfClosing) stack.push(node);
+  }
+
+  return root;
+};
+
+/**
+ * All descendants with the given local name, in document order.
+ */
+export const findAll = (node: XmlNode, name: string): XmlNode[] => {
+  const out: XmlNode[] = [];
+  const walk = (n: XmlNode) => {
+    n.children.forEach(c => {
+      if (c.name === name) out.push(c);
+      walk(c);
+    });
+  };
+  walk(node);
+  return out;
+};
+
+/**
+ * First descendant with the given local name (depth-first).
+ */
+export const findFirst = (node: XmlNode, name: string): XmlNode | undefined => {
+  for (const c of node.children) {
+    if (c.name === name) return c;
+    const found = findFirst(c, name);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+/**
+ * Direct child with the given local name.
+ */
+export const findChild = (node: XmlNode | undefined, name: string): XmlNode | undefined =>
+  node?.children.find(c => c.name === name);
+
+export const textOf = (node: XmlNode | undefined): string => node?.text.trim() || '';
+
+const ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+
+/**
+ * Escapes text for use in XML content or attribute values.
+ */
+export const escapeXml = (s: string): string => s.replace(/[&<>"']/g, c => ESCAPES[c]);
@@ -0,0 +1,153 @@
+import { ActivityParseError } from './errors';
+
+// ZIP record signatures
+const EOCD_SIG = 0x06054b50;
+const CENTRAL_SIG = 0x02014b50;
+const LOCAL_SIG = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+// General purpose flag: file names are UTF-8
+const FLAG_UTF8 = 0x0800;
+
+const inflateRaw = async (data: Uint8Array<ArrayBuffer>): Promise<ArrayBuffer> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  // EOCD is 22 bytes plus an optional comment of up to 64 KiB
+  const min = Math.max(0, view.byteLength - 22 - 0xFFFF);
+  for (let i = view.byteLength - 22; i >= min; i--) {
+    if (view.getUint32(i, true) === EOCD_SIG) return i;
+  }
+  throw new ActivityParseError('MALFORMED_FILE', 'Not a ZIP archive.');
+};
+
+export const isZipFile = (file: File) => file.name.toLowerCase().endsWith('.zip');
+
+/**
+ * Extracts every file in a ZIP archive (stored or deflate entries).
+ * Directory structure is flattened to the file's base name; macOS
+ * metadata entries are skipped.
+ */
+export const extractZip = async (file: File): Promise<File[]> => {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const eocd = findEndOfCentralDirectory(view);
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xFFFFFFFF) throw new ActivityParseError('UNSUPPORTED_FORMAT', 'ZIP64 archives are not supported.');
+
+  const files: File[] = [];
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIG) throw new ActivityParseError('MALFORMED_FILE', 'Corrupt ZIP central directory.');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const name = path.split('/').pop() || '';
+    if (!name || path.startsWith('__MACOSX/') || name.startsWith('._')) continue;
+
+    if (view.getUint32(localOffset, true) !== LOCAL_SIG) throw new ActivityParseError('MALFORMED_FILE', `Corrupt ZIP entry: ${name}`);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+
+    if (method === METHOD_STORED) {
+      files.push(new File([data.slice()], name));
+    } else if (method === METHOD_DEFLATE) {
+      files.push(new File([await inflateRaw(data)], name));
+    } else {
+      throw new ActivityParseError('UNSUPPORTED_FORMAT', `Unsupported ZIP compression method ${method} for ${name}.`);
+    }
+  }
+
+  return files;
+};
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+/**
+ * Packs files into a ZIP archive without compression. Used for export
+ * bundles, which are small and mostly read by other tools.
+ */
+export const createZip = (entries: { name: string; data: Uint8Array | string }[], modified: Date = new Date()): Blob => {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_SIG, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, FLAG_UTF8, true);
+    local.setUint16(8, METHOD_STORED, true);
+    local.setUint16(10, stamp.time, true);
+    local.setUint16(12, stamp.date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, CENTRAL_SIG, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, FLAG_UTF8, true);
+    header.setUint16(10, METHOD_STORED, true);
+    header.setUint16(12, stamp.time, true);
+    header.setUint16(14, stamp.date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, data);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((a, c) => a + c.length, 0);
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, EOCD_SIG, true);
+  eocd.setUint16(8, entries.length, true);
+  eocd.setUint16(10, entries.length, true);
+  eocd.setUint32(12, centralSize, true);
+  eocd.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(eocd.buffer)] as BlobPart[], { type: 'application/zip' });
+};
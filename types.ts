@@ -1,7 +1,8 @@
 
 export enum HRZoneMethod {
   MAX_HR = 'MAX_HR',
-  KARVONEN = 'KARVONEN'
+  KARVONEN = 'KARVONEN',
+  LTHR = 'LTHR'
 }
 
 export enum Units {
@@ -17,6 +18,30 @@ export enum RunnerLevel {
 
 export type ThemeType = 'carbon' | 'strava' | 'midnight' | 'forest';
 
+export interface ElevationSettings {
+  smoothingSeconds: number; // centred rolling window, 0 disables smoothing
+  threshold: number; // meters of climb or drop before it counts (hysteresis)
+  useDEM: boolean; // replace recorded altitude with DEM terrain height where covered
+}
+
+export type MapColorMode = 'route' | 'pace' | 'hr' | 'grade';
+
+export interface MapSettings {
+  colorMode: MapColorMode;
+  tileUrl: string; // Leaflet URL template, empty for the default dark tiles
+  offline: boolean; // draw routes on a blank background, no tile requests
+}
+
+export type ElevationSource = 'device' | 'smoothed' | 'dem';
+
+export interface DemTile {
+  name: string; // e.g. 'N46E007'
+  south: number; // latitude of the tile's southern edge
+  west: number; // longitude of the tile's western edge
+  size: number; // samples per row (1201 for SRTM3, 3601 for SRTM1)
+  data: Int16Array; // row-major from the northern edge, meters
+}
+
 export interface UserSettings {
   name: string;
   age: number;
@@ -28,6 +53,15 @@ export interface UserSettings {
   theme: ThemeType;
   activePlanId?: string;
   level: RunnerLevel;
+  // Lactate threshold, auto-detected from runs unless manually overridden
+  thresholdPace?: number; // seconds per km
+  lthr?: number;
+  thresholdManual?: boolean;
+  elevation?: ElevationSettings;
+  map?: MapSettings;
+  planSchedule?: PlanSchedule;
+  // Decided plan adjustments, oldest first, kept as an audit trail
+  planAdjustments?: PlanAdjustment[];
   // Map of sessionId -> runId to track completion
   completedSessions: Record<string, string>;
 }
@@ -36,18 +70,106 @@ export interface TrackPoint {
   time: Date;
   lat?: number;
   lng?: number;
-  altitude?: number;
+  altitude?: number; // corrected
+  rawAltitude?: number; // as recorded
   distance?: number;
   hr?: number;
   speed?: number;
+  cadence?: number; // steps per minute
+  power?: number; // watts
+  verticalOscillation?: number; // mm
+  groundContactTime?: number; // ms
+  strideLength?: number; // meters per step
 }
 
 export interface Lap {
   id: number;
+  startTime?: Date;
   distance: number;
   time: number;
   avgPace: number;
   avgHR: number;
+  maxHR?: number;
+  intensity?: 'active' | 'rest' | 'warmup' | 'cooldown';
+  gap?: number;
+  source?: 'device' | 'auto';
+}
+
+export type DataQualityIssueType =
+  | 'invalid_time'
+  | 'time_order'
+  | 'timestamp_gap'
+  | 'gps_spike'
+  | 'distance_regression'
+  | 'distance_jump'
+  | 'hr_artifact'
+  | 'hr_dropout'
+  | 'no_hr'
+  | 'no_gps';
+
+export interface DataQualityIssue {
+  type: DataQualityIssueType;
+  count: number;
+  repaired: boolean;
+  message: string;
+}
+
+export interface DataQualityReport {
+  score: number; // 0-100, how far to trust the run's metrics
+  pointCount: number;
+  issues: DataQualityIssue[];
+}
+
+export interface BestEffort {
+  key: string; // e.g. '5k'
+  distance: number; // meters
+  time: number; // seconds
+  startIdx: number;
+  endIdx: number;
+}
+
+export interface PaceCurvePoint {
+  seconds: number;
+  pace: number; // seconds per km
+  hr?: number;
+}
+
+export interface PersonalRecord {
+  key: string;
+  label: string;
+  distance: number;
+  time: number;
+  runId: string;
+  date: Date;
+}
+
+export interface RacePrediction {
+  key: string;
+  label: string;
+  distance: number;
+  riegel?: number; // seconds
+  vdot?: number; // seconds
+  sourceKey?: string; // effort the Riegel projection is based on
+}
+
+export interface TrainingPaces {
+  vdot: number;
+  easy: [number, number]; // seconds per km, fast..slow
+  marathon: number;
+  threshold: number;
+  interval: number;
+  repetition: number;
+}
+
+export interface ComplianceBreakdown {
+  durationScore: number;
+  intensityScore: number;
+  structureScore?: number;
+  targetZone: number;
+  timeInZonePct: number;
+  timeAbovePct: number;
+  timeBelowPct: number;
+  driftPenalty: number;
 }
 
 export interface RunData {
@@ -64,6 +186,9 @@ export interface RunData {
     maxHR: number;
     totalAscent: number;
     totalDescent: number;
+    rawAscent?: number; // uncorrected, every recorded altitude delta
+    rawDescent?: number;
+    elevationSource?: ElevationSource;
     avgPace: number;
     maxPace: number;
     calories?: number;
@@ -76,30 +201,165 @@ export interface RunData {
     gap?: number;
     decoupling?: number;
     trainingEffect: number;
+    trimp?: number;
+    // Running dynamics, only where the file recorded them
+    avgCadence?: number;
+    avgPower?: number;
+    normalizedPower?: number;
+    avgStrideLength?: number;
+    avgVerticalOscillation?: number;
+    avgGroundContactTime?: number;
   };
+  quality?: DataQualityReport;
+  route?: [number, number][]; // downsampled lat/lng course, [] for runs without GPS
+  hrHistogram?: Record<number, number>; // bpm -> seconds
+  bestEfforts?: BestEffort[];
+  paceCurve?: PaceCurvePoint[];
   compliance?: {
     score: number;
     notes: string;
     sessionId?: string;
+    breakdown?: ComplianceBreakdown;
+  };
+}
+
+export type WorkoutSegmentType = 'warmup' | 'work' | 'recovery' | 'cooldown' | 'steady';
+
+export interface WorkoutSegment {
+  type: WorkoutSegmentType;
+  startIdx: number;
+  endIdx: number;
+  duration: number; // seconds
+  distance: number; // meters
+  avgPace: number;
+  avgHR: number;
+}
+
+export interface WorkoutStructure {
+  isInterval: boolean;
+  segments: WorkoutSegment[];
+  reps: {
+    count: number;
+    meanPace: number;
+    meanDistance: number;
+    meanDuration: number;
+    hrDrift: number; // bpm, last rep vs first rep
+    recoveryHrDrop: number; // bpm, mean drop within recoveries
   };
 }
 
+export type StepDurationType = 'time' | 'distance' | 'open';
+export type StepTargetType = 'none' | 'pace' | 'hrZone' | 'power';
+
+export interface WorkoutStep {
+  kind: WorkoutSegmentType;
+  durationType: StepDurationType;
+  durationValue?: number; // seconds for time, meters for distance
+  targetType: StepTargetType;
+  targetZone?: number; // hrZone targets
+  targetLow?: number; // pace (seconds per km) or power (W) range
+  targetHigh?: number;
+}
+
+export interface WorkoutRepeat {
+  kind: 'repeat';
+  count: number;
+  steps: WorkoutStep[];
+}
+
+export type WorkoutItem = WorkoutStep | WorkoutRepeat;
+
 export interface PlanSession {
   id: string;
   day: number;
   title: string;
-  description: string;
+  steps: WorkoutItem[];
+  notes?: string;
   targetDuration: number; // minutes
   targetZone: number;
+  targetPace?: number; // seconds per km, from the athlete's training paces
   linkedRunId?: string;
 }
 
+export type PlanAnchor = 'start' | 'race';
+
+export interface PlanSchedule {
+  anchor: PlanAnchor;
+  date: string; // YYYY-MM-DD: day 1 of the plan, or race day (the last session)
+  moves: Record<string, string>; // sessionId -> rescheduled YYYY-MM-DD
+}
+
+export type SessionStatus = 'completed' | 'today' | 'overdue' | 'upcoming';
+
+export interface ScheduledSession {
+  session: PlanSession;
+  date: Date; // local midnight
+  status: SessionStatus;
+}
+
+export type AdjustmentKind = 'shorten' | 'downgrade' | 'recovery' | 'progress';
+export type AdjustmentStatus = 'proposed' | 'accepted' | 'rejected';
+
+export interface PlanAdjustment {
+  id: string;
+  planId: string;
+  sessionId: string; // session changed, or the one a recovery run goes before
+  kind: AdjustmentKind;
+  reason: string;
+  from: { targetDuration: number; targetZone: number };
+  to: { targetDuration: number; targetZone: number }; // the inserted run for 'recovery'
+  status: AdjustmentStatus;
+  createdAt: string; // ISO timestamps
+  decidedAt?: string;
+}
+
 export interface TrainingPlan {
   id: string;
   name: string;
+  custom?: boolean; // created in the plan editor, editable and stored locally
   sessions: PlanSession[];
 }
 
+export interface DailyLoad {
+  date: Date;
+  load: number; // TRIMP for the day
+  ctl: number; // fitness (42-day EWMA)
+  atl: number; // fatigue (7-day EWMA)
+  tsb: number; // form (yesterday's CTL - ATL)
+  acwr: number; // acute:chronic workload ratio (7d / 28d rolling average)
+}
+
+export type LoadRiskLevel = 'low' | 'elevated' | 'high';
+
+export interface LoadRiskFlag {
+  date: Date;
+  acwr: number;
+  level: LoadRiskLevel;
+  message: string;
+}
+
+export interface ThresholdEstimate {
+  pace: number; // seconds per km
+  hr: number;
+  runId: string;
+  effortSeconds: number;
+}
+
+export type ImportStatus = 'imported' | 'duplicate' | 'failed';
+
+export interface ImportResult {
+  fileName: string;
+  status: ImportStatus;
+  reason?: string;
+  runId?: string;
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+  fileName?: string;
+}
+
 export interface HRZoneDistribution {
   zone: number;
   label: string;
@@ -108,3 +368,43 @@ export interface HRZoneDistribution {
   seconds: number;
   percentage: number;
 }
+
+export type ComparisonAxis = 'distance' | 'time';
+
+export interface TimeDeltaPoint {
+  distance: number; // meters along both runs
+  delta: number; // seconds behind (+) or ahead (-) of the baseline
+}
+
+export interface GainLossSegment {
+  from: number; // meters
+  to: number;
+  change: number; // seconds; negative = time gained on the baseline
+}
+
+export interface SegmentEffort {
+  runId: string;
+  date: Date;
+  startIdx: number;
+  endIdx: number;
+  time: number; // seconds
+  distance: number; // meters actually run
+  pace: number; // seconds per km
+  gap: number;
+  avgHR: number;
+}
+
+export interface Segment {
+  id: string;
+  name: string;
+  polyline: [number, number][]; // lat/lng in the direction of travel
+  distance: number; // meters
+  createdAt: Date;
+  efforts: SegmentEffort[];
+}
+
+export interface RouteGroup {
+  id: string;
+  runIds: string[]; // newest first
+  distance: number; // meters, of the newest run
+}